@@ -0,0 +1,152 @@
+// Local stand-in for the workspace chat API so the app can be run offline.
+//
+//   npm run mock:api
+//   UPSTREAM_URL=http://localhost:3001 API_KEY=dev npm run proxy
+//   npm run dev
+//
+// `/chat` answers with the whole fixture at once, `/stream-chat` sends it as
+// server-sent `textResponseChunk` events followed by a closing chunk that
+// carries the sources. Every workspace slug gets the same fixture;
+// `/api/v1/workspaces` lists a few for the workspace picker.
+//
+// `/inference` (whisper.cpp) and `/v1/audio/transcriptions` (OpenAI) accept
+// any upload and answer with a fixed transcript, for the `whisper` speech
+// engine: VITE_SPEECH_TO_TEXT=whisper VITE_WHISPER_URL=http://localhost:3001/inference
+//
+// `/feedback` accepts answer ratings and prints them, as a stand-in collector:
+// VITE_FEEDBACK_SINK=http VITE_FEEDBACK_URL=http://localhost:3001/feedback
+import { createServer } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+
+const PORT = Number(process.env.MOCK_API_PORT ?? 3001);
+const CHUNK_DELAY_MS = Number(process.env.MOCK_CHUNK_DELAY_MS ?? 60);
+const fixture = JSON.parse(
+  readFileSync(new URL('./fixtures/chat-response.json', import.meta.url), 'utf8')
+);
+
+const TRANSCRIPT = process.env.MOCK_TRANSCRIPT ?? 'Yarınki matematik sınavı hangi konuları kapsıyor?';
+
+const CHAT_ROUTE = /^\/api\/v1\/workspace\/[^/]+\/(chat|stream-chat)$/;
+const TRANSCRIPTION_ROUTE = /^\/(inference|v1\/audio\/transcriptions)$/;
+const FEEDBACK_ROUTE = '/feedback';
+const WORKSPACE_LIST_ROUTE = '/api/v1/workspaces';
+
+const WORKSPACES = [
+  { slug: 'okulyapayzeka', name: 'Genel' },
+  { slug: 'yonetmelik', name: 'Yönetmelikler' },
+  { slug: 'rehberlik', name: 'Rehberlik' }
+];
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const readJson = async (req) => {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return body ? JSON.parse(body) : {};
+};
+
+const setCorsHeaders = (res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Accept');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+};
+
+const sendEvent = (res, payload) => {
+  res.write(`data: ${JSON.stringify(payload)}\n\n`);
+};
+
+const handleChat = (res, request) => {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    id: randomUUID(),
+    type: 'textResponse',
+    textResponse: request.reset ? '' : fixture.textResponse,
+    sources: request.reset ? [] : fixture.sources,
+    close: true,
+    error: null
+  }));
+};
+
+const handleStreamChat = async (req, res) => {
+  const uuid = randomUUID();
+  let closed = false;
+  req.on('close', () => { closed = true; });
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+
+  // Split on word boundaries but keep the whitespace, like an LLM token stream
+  const tokens = fixture.textResponse.match(/\S+\s*|\s+/g) ?? [];
+  for (const token of tokens) {
+    if (closed) return;
+    sendEvent(res, { uuid, type: 'textResponseChunk', textResponse: token, sources: [], close: false, error: false });
+    await sleep(CHUNK_DELAY_MS);
+  }
+
+  sendEvent(res, { uuid, type: 'textResponseChunk', textResponse: '', sources: fixture.sources, close: true, error: false });
+  res.end();
+};
+
+const server = createServer(async (req, res) => {
+  setCorsHeaders(res);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  if (req.method === 'POST' && req.url && TRANSCRIPTION_ROUTE.test(req.url)) {
+    // Drain the multipart upload; its content doesn't matter here
+    for await (const chunk of req) void chunk;
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ text: TRANSCRIPT }));
+    return;
+  }
+
+  if (req.method === 'GET' && req.url === WORKSPACE_LIST_ROUTE) {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ workspaces: WORKSPACES }));
+    return;
+  }
+
+  if (req.method === 'POST' && req.url === FEEDBACK_ROUTE) {
+    try {
+      const record = await readJson(req);
+      console.log(`Feedback ${record.rating === 'up' ? '👍' : '👎'} ${record.messageId}: ${record.comment || '(no comment)'}`);
+      res.writeHead(204);
+      res.end();
+    } catch (error) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: String(error) }));
+    }
+    return;
+  }
+
+  const match = req.method === 'POST' && req.url ? CHAT_ROUTE.exec(req.url) : null;
+  if (!match) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Not found' }));
+    return;
+  }
+
+  try {
+    const request = await readJson(req);
+    if (match[1] === 'chat') {
+      handleChat(res, request);
+    } else {
+      await handleStreamChat(req, res);
+    }
+  } catch (error) {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: String(error) }));
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock workspace API listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,107 @@
+// Checks the UI catalogs in src/i18n/locales against the Turkish one: every
+// key must exist in every locale, no locale may carry keys Turkish doesn't
+// have, and each translation must use the same placeholders. Runs before
+// `build`, so a missing translation fails the build instead of showing a key.
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+const localesDir = new URL('../src/i18n/locales/', import.meta.url).pathname;
+const REFERENCE = 'tr';
+
+const catalogs = Object.fromEntries(
+  readdirSync(localesDir)
+    .filter(name => name.endsWith('.json'))
+    .map(name => [name.replace(/\.json$/, ''), JSON.parse(readFileSync(join(localesDir, name), 'utf8'))])
+);
+
+// Walks a message the way src/i18n/format.ts does and collects the names of
+// its `{name}` and `{name, plural, ...}` arguments, or reports why it can't
+const inspect = message => {
+  const names = new Set();
+  let pos = 0;
+
+  const skipSpaces = () => {
+    while (/\s/.test(message[pos] ?? '')) pos++;
+  };
+  const readWord = () => {
+    skipSpaces();
+    const start = pos;
+    while (pos < message.length && !/[\s,{}]/.test(message[pos])) pos++;
+    return message.slice(start, pos);
+  };
+  const expect = char => {
+    skipSpaces();
+    if (message[pos] !== char) throw new Error(`expected "${char}" at ${pos}`);
+    pos++;
+  };
+  const readText = () => {
+    while (pos < message.length && message[pos] !== '}') {
+      if (message[pos++] === '{') readArgument();
+    }
+  };
+  const readArgument = () => {
+    names.add(readWord());
+    skipSpaces();
+    if (message[pos] === '}') {
+      pos++;
+      return;
+    }
+    expect(',');
+    const type = readWord();
+    if (type !== 'plural') throw new Error(`unsupported argument type "${type}"`);
+    expect(',');
+    const selectors = [];
+    skipSpaces();
+    while (message[pos] !== '}') {
+      if (pos >= message.length) throw new Error('unclosed plural');
+      selectors.push(readWord());
+      expect('{');
+      readText();
+      expect('}');
+      skipSpaces();
+    }
+    pos++;
+    if (!selectors.includes('other')) throw new Error('plural without an "other" branch');
+  };
+
+  try {
+    readText();
+    if (pos < message.length) throw new Error(`unexpected "}" at ${pos}`);
+    return { names, problem: null };
+  } catch (error) {
+    return { names, problem: error.message };
+  }
+};
+
+const sameNames = (a, b) => a.size === b.size && [...a].every(name => b.has(name));
+
+const reference = catalogs[REFERENCE];
+const problems = [];
+
+for (const [locale, catalog] of Object.entries(catalogs)) {
+  for (const key of Object.keys(reference)) {
+    if (!(key in catalog)) problems.push(`${locale}: missing "${key}"`);
+  }
+
+  for (const [key, message] of Object.entries(catalog)) {
+    if (!(key in reference)) {
+      problems.push(`${locale}: unknown key "${key}"`);
+      continue;
+    }
+
+    const { names, problem } = inspect(message);
+    if (problem) problems.push(`${locale}: "${key}": ${problem}`);
+
+    const expected = inspect(reference[key]).names;
+    if (!sameNames(names, expected)) {
+      problems.push(`${locale}: "${key}" uses {${[...names].join(', ')}} instead of {${[...expected].join(', ')}}`);
+    }
+  }
+}
+
+if (problems.length > 0) {
+  console.error(`i18n: ${problems.length} problem(s) in the UI catalogs\n${problems.map(problem => `  ${problem}`).join('\n')}`);
+  process.exit(1);
+}
+
+console.log(`i18n: ${Object.keys(catalogs).length} locales, ${Object.keys(reference).length} keys each`);
@@ -0,0 +1,31 @@
+// Copies what tesseract.js needs at runtime into public/ocr, so OCR works
+// without fetching the worker, WASM core or language data from a CDN.
+// Runs before `dev` and `build`; the copies are not committed.
+import { copyFileSync, existsSync, mkdirSync, readdirSync, statSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+
+const require = createRequire(import.meta.url);
+const target = new URL('../public/ocr/', import.meta.url).pathname;
+
+const tesseractDir = dirname(require.resolve('tesseract.js/package.json'));
+const coreDir = dirname(require.resolve('tesseract.js-core/package.json'));
+const languageDir = join(dirname(require.resolve('@tesseract.js-data/tur/package.json')), '4.0.0_best_int');
+
+const files = [
+  [join(tesseractDir, 'dist', 'worker.min.js'), 'worker.min.js'],
+  // The worker picks the SIMD build the device supports; LSTM-only matches OEM 1
+  ...readdirSync(coreDir)
+    .filter(name => /^tesseract-core.*-lstm\.wasm\.js$/.test(name))
+    .map(name => [join(coreDir, name), name]),
+  [join(languageDir, 'tur.traineddata.gz'), 'tur.traineddata.gz']
+];
+
+mkdirSync(target, { recursive: true });
+
+for (const [source, name] of files) {
+  const destination = join(target, name);
+  if (existsSync(destination) && statSync(destination).size === statSync(source).size) continue;
+  copyFileSync(source, destination);
+  console.log(`ocr: ${name}`);
+}
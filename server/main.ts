@@ -0,0 +1,10 @@
+// Starts the chat proxy (npm run proxy); see proxy.ts for what it does and
+// which environment variables it reads.
+import { createServer } from 'node:http';
+import { createProxyHandler, readConfig } from './proxy.js';
+
+const config = readConfig(process.env);
+
+createServer(createProxyHandler(config)).listen(config.port, () => {
+  console.log(`Chat proxy listening on http://localhost:${config.port} -> ${config.upstreamUrl}`);
+});
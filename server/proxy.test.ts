@@ -0,0 +1,218 @@
+import { createServer, IncomingHttpHeaders, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createProxyHandler, readConfig } from './proxy.js';
+
+interface UpstreamRequest {
+  method: string;
+  url: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+type UpstreamRoute = (res: ServerResponse) => void | Promise<void>;
+
+const listen = (server: Server) =>
+  new Promise<string>(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    });
+  });
+
+const close = (server: Server) =>
+  new Promise<void>(resolve => {
+    server.closeAllConnections();
+    server.close(() => resolve());
+  });
+
+// Stands in for the workspace API: records what reaches it and answers with
+// whatever the test registered for the path
+const startUpstream = async () => {
+  const requests: UpstreamRequest[] = [];
+  const routes = new Map<string, UpstreamRoute>();
+
+  const server = createServer(async (req, res) => {
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    requests.push({ method: req.method ?? '', url: req.url ?? '', headers: req.headers, body });
+
+    const route = routes.get(req.url ?? '');
+    if (!route) {
+      res.writeHead(404).end();
+      return;
+    }
+    await route(res);
+  });
+
+  return { server, requests, routes, url: await listen(server) };
+};
+
+const json = (body: unknown) => (res: ServerResponse) => {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const CHAT_PATH = '/api/v1/workspace/okul/chat';
+
+describe('chat proxy', () => {
+  let upstream: Awaited<ReturnType<typeof startUpstream>>;
+  let proxy: Server | null = null;
+
+  beforeEach(async () => {
+    upstream = await startUpstream();
+  });
+
+  afterEach(async () => {
+    if (proxy) await close(proxy);
+    proxy = null;
+    await close(upstream.server);
+  });
+
+  const startProxy = (env: Record<string, string> = {}) => {
+    const config = readConfig({ UPSTREAM_URL: upstream.url, API_KEY: 'gizli-anahtar', ...env });
+    proxy = createServer(createProxyHandler(config));
+    return listen(proxy);
+  };
+
+  const postChat = (proxyUrl: string, body: unknown, path = CHAT_PATH, headers: Record<string, string> = {}) =>
+    fetch(`${proxyUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body)
+    });
+
+  it('adds the API key and passes the request and reply through', async () => {
+    upstream.routes.set(CHAT_PATH, json({ id: '1', textResponse: 'Merhaba' }));
+    const proxyUrl = await startProxy();
+
+    const response = await postChat(proxyUrl, { message: 'Selam', mode: 'chat' }, CHAT_PATH, {
+      Authorization: 'Bearer tarayicidan'
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ id: '1', textResponse: 'Merhaba' });
+    expect(upstream.requests).toHaveLength(1);
+    expect(upstream.requests[0].headers.authorization).toBe('Bearer gizli-anahtar');
+    expect(JSON.parse(upstream.requests[0].body)).toEqual({ message: 'Selam', mode: 'chat' });
+  });
+
+  it('refuses workspaces outside ALLOWED_WORKSPACES', async () => {
+    upstream.routes.set('/api/v1/workspace/rehberlik/chat', json({}));
+    const proxyUrl = await startProxy({ ALLOWED_WORKSPACES: 'rehberlik, okul' });
+
+    const allowed = await postChat(proxyUrl, {}, '/api/v1/workspace/rehberlik/chat');
+    const refused = await postChat(proxyUrl, {}, '/api/v1/workspace/yonetim/chat');
+
+    expect(allowed.status).toBe(200);
+    expect(refused.status).toBe(403);
+    expect(upstream.requests.map(r => r.url)).toEqual(['/api/v1/workspace/rehberlik/chat']);
+  });
+
+  it('answers 404 for other routes and methods', async () => {
+    const proxyUrl = await startProxy();
+
+    expect((await fetch(`${proxyUrl}${CHAT_PATH}`)).status).toBe(404);
+    expect((await postChat(proxyUrl, {}, '/api/v1/admin/users')).status).toBe(404);
+    expect(upstream.requests).toHaveLength(0);
+  });
+
+  it('limits each client and says when to retry', async () => {
+    upstream.routes.set(CHAT_PATH, json({}));
+    const proxyUrl = await startProxy({ RATE_LIMIT_MAX: '2', RATE_LIMIT_WINDOW_MS: '30000' });
+
+    const statuses = [];
+    for (let i = 0; i < 3; i++) {
+      statuses.push((await postChat(proxyUrl, {})).status);
+    }
+    const limited = await postChat(proxyUrl, {});
+
+    expect(statuses).toEqual([200, 200, 429]);
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect(Number(limited.headers.get('retry-after'))).toBeLessThanOrEqual(30);
+  });
+
+  it('keeps a separate limit for each browser relayed over loopback', async () => {
+    upstream.routes.set(CHAT_PATH, json({}));
+    const proxyUrl = await startProxy({ RATE_LIMIT_MAX: '1' });
+
+    const first = await postChat(proxyUrl, {}, CHAT_PATH, { 'X-Forwarded-For': '10.0.0.5' });
+    const other = await postChat(proxyUrl, {}, CHAT_PATH, { 'X-Forwarded-For': '10.0.0.6' });
+    const again = await postChat(proxyUrl, {}, CHAT_PATH, { 'X-Forwarded-For': '10.0.0.5' });
+    // A made-up first entry doesn't buy a fresh limit; the relay's entry comes last
+    const spoofed = await postChat(proxyUrl, {}, CHAT_PATH, { 'X-Forwarded-For': '1.2.3.4, 10.0.0.5' });
+
+    expect([first.status, other.status, again.status, spoofed.status]).toEqual([200, 200, 429, 429]);
+  });
+
+  it('rejects bodies over MAX_BODY_BYTES with 413', async () => {
+    upstream.routes.set(CHAT_PATH, json({}));
+    const proxyUrl = await startProxy({ MAX_BODY_BYTES: '100' });
+
+    const response = await postChat(proxyUrl, { message: 'x'.repeat(200) });
+
+    expect(response.status).toBe(413);
+    expect(upstream.requests).toHaveLength(0);
+  });
+
+  it('streams server-sent events through as they arrive', async () => {
+    const streamPath = '/api/v1/workspace/okul/stream-chat';
+    let releaseSecondEvent = () => {};
+    const secondEventAllowed = new Promise<void>(resolve => {
+      releaseSecondEvent = resolve;
+    });
+
+    upstream.routes.set(streamPath, async (res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: {"textResponse":"Mer"}\n\n');
+      await secondEventAllowed;
+      res.end('data: {"textResponse":"haba","close":true}\n\n');
+    });
+    const proxyUrl = await startProxy();
+
+    const response = await postChat(proxyUrl, { message: 'Selam' }, streamPath, { Accept: 'text/event-stream' });
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    expect(upstream.requests[0].headers.accept).toBe('text/event-stream');
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    // The first event must arrive while the upstream is still holding back the second
+    const first = await reader.read();
+    expect(decoder.decode(first.value)).toBe('data: {"textResponse":"Mer"}\n\n');
+
+    releaseSecondEvent();
+    let rest = '';
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      rest += decoder.decode(chunk.value, { stream: true });
+    }
+    expect(rest).toBe('data: {"textResponse":"haba","close":true}\n\n');
+  });
+
+  it('lists only allowed workspaces, without their settings', async () => {
+    upstream.routes.set('/api/v1/workspaces', json({
+      workspaces: [
+        { id: 1, slug: 'okul', name: 'Genel', openAiPrompt: 'Gizli talimat' },
+        { id: 2, slug: 'yonetim', name: 'Yönetim', openAiPrompt: 'Gizli talimat' },
+        { id: 3, name: 'Slug yok' }
+      ]
+    }));
+    const proxyUrl = await startProxy({ ALLOWED_WORKSPACES: 'okul' });
+
+    const response = await fetch(`${proxyUrl}/api/v1/workspaces`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ workspaces: [{ slug: 'okul', name: 'Genel' }] });
+    expect(upstream.requests[0].headers.authorization).toBe('Bearer gizli-anahtar');
+  });
+
+  it('reports an unreachable upstream as 502', async () => {
+    const logError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const proxyUrl = await startProxy({ UPSTREAM_URL: 'http://127.0.0.1:1' });
+
+    const response = await postChat(proxyUrl, {});
+
+    expect(response.status).toBe(502);
+    expect(logError).toHaveBeenCalled();
+    logError.mockRestore();
+  });
+});
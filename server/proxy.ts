@@ -0,0 +1,210 @@
+// Server-side proxy for the workspace chat API. It keeps the workspace API key
+// out of the browser bundle and applies a per-client rate limit.
+//
+//   UPSTREAM_URL=https://suxr2ydt.rpcl.host API_KEY=... npm run proxy
+//
+// Vite's dev and preview servers forward `/api` and `/v1` here (see vite.config.ts).
+//
+// Clients are told apart by IP address. Behind `vite preview` on the same
+// machine every request arrives from loopback, so Vite adds the browser's
+// address as `X-Forwarded-For` (`xfwd: true`) and the proxy uses that instead.
+// Behind another reverse proxy (nginx, a load balancer), set TRUST_PROXY=true
+// so the first `X-Forwarded-For` entry is taken as the client.
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { Readable } from 'node:stream';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import { RateLimiter } from './rateLimiter.js';
+
+export interface ProxyConfig {
+  port: number;
+  upstreamUrl: string;
+  apiKey: string;
+  allowedWorkspaces: string[];
+  rateLimit: number;
+  rateLimitWindowMs: number;
+  maxBodyBytes: number;
+  trustForwardedFor: boolean;
+}
+
+export const readConfig = (env: NodeJS.ProcessEnv): ProxyConfig => {
+  const upstreamUrl = env.UPSTREAM_URL;
+  const apiKey = env.API_KEY;
+
+  if (!upstreamUrl || !apiKey) {
+    throw new Error('UPSTREAM_URL and API_KEY must be set');
+  }
+
+  return {
+    port: Number(env.PROXY_PORT ?? 8787),
+    upstreamUrl: upstreamUrl.replace(/\/+$/, ''),
+    apiKey,
+    allowedWorkspaces: (env.ALLOWED_WORKSPACES ?? '').split(',').map(s => s.trim()).filter(Boolean),
+    rateLimit: Number(env.RATE_LIMIT_MAX ?? 20),
+    rateLimitWindowMs: Number(env.RATE_LIMIT_WINDOW_MS ?? 60_000),
+    // The app checks attachments against the same size (`maxRequestBytes`)
+    maxBodyBytes: Number(env.MAX_BODY_BYTES ?? 15 * 1024 * 1024),
+    trustForwardedFor: env.TRUST_PROXY === 'true'
+  };
+};
+
+const WORKSPACE_CHAT_ROUTE = /^\/api\/v1\/workspace\/([^/]+)\/(chat|stream-chat)$/;
+const WORKSPACE_LIST_ROUTE = '/api/v1/workspaces';
+// OpenAI-compatible upstreams (see the `openai` provider in src/providers)
+const COMPLETIONS_ROUTE = '/v1/chat/completions';
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = async (req: IncomingMessage, maxBytes: number): Promise<string> => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new HttpError(413, 'İstek çok büyük.');
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+const LOOPBACK_ADDRESSES = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+
+const getClientKey = (req: IncomingMessage, trustForwardedFor: boolean): string => {
+  const header = req.headers['x-forwarded-for'];
+  const forwardedFor = typeof header === 'string'
+    ? header.split(',').map(address => address.trim()).filter(Boolean)
+    : [];
+  if (trustForwardedFor && forwardedFor.length > 0) {
+    return forwardedFor[0];
+  }
+
+  // A local relay (vite preview) appends the address it saw last; earlier
+  // entries came from the browser and could be made up
+  const remoteAddress = req.socket.remoteAddress ?? 'unknown';
+  if (LOOPBACK_ADDRESSES.has(remoteAddress) && forwardedFor.length > 0) {
+    return forwardedFor[forwardedFor.length - 1];
+  }
+  return remoteAddress;
+};
+
+/** Request handler for `node:http`; main.ts serves it, tests call it directly. */
+export const createProxyHandler = (config: ProxyConfig) => {
+  const rateLimiter = new RateLimiter(config.rateLimit, config.rateLimitWindowMs);
+
+  const forward = async (req: IncomingMessage, res: ServerResponse, path: string) => {
+    const body = await readBody(req, config.maxBodyBytes);
+
+    // Stop talking to the upstream as soon as the browser goes away
+    const abortController = new AbortController();
+    res.on('close', () => abortController.abort());
+
+    const upstream = await fetch(`${config.upstreamUrl}${path}`, {
+      method: 'POST',
+      signal: abortController.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.apiKey}`,
+        'accept': req.headers.accept ?? 'application/json'
+      },
+      body
+    });
+
+    res.writeHead(upstream.status, {
+      'Content-Type': upstream.headers.get('content-type') ?? 'application/json',
+      'Cache-Control': 'no-cache'
+    });
+
+    if (!upstream.body) {
+      res.end();
+      return;
+    }
+
+    Readable.fromWeb(upstream.body as NodeReadableStream).pipe(res);
+  };
+
+  // Only slugs and names go back to the browser: the full listing also holds
+  // each workspace's prompt and model settings. Workspaces outside
+  // ALLOWED_WORKSPACES are left out, so the picker never offers one that
+  // would be refused.
+  const listWorkspaces = async (res: ServerResponse) => {
+    const upstream = await fetch(`${config.upstreamUrl}${WORKSPACE_LIST_ROUTE}`, {
+      headers: {
+        'Authorization': `Bearer ${config.apiKey}`,
+        'accept': 'application/json'
+      }
+    });
+
+    if (!upstream.ok) {
+      sendJson(res, upstream.status, { error: 'Çalışma alanları alınamadı.' });
+      return;
+    }
+
+    const body = await upstream.json() as { workspaces?: { slug?: unknown; name?: unknown }[] };
+    const workspaces = (Array.isArray(body.workspaces) ? body.workspaces : [])
+      .filter((workspace): workspace is { slug: string; name?: unknown } =>
+        typeof workspace.slug === 'string' &&
+        (config.allowedWorkspaces.length === 0 || config.allowedWorkspaces.includes(workspace.slug)))
+      .map(({ slug, name }) => ({ slug, name: typeof name === 'string' ? name : slug }));
+
+    sendJson(res, 200, { workspaces }, { 'Cache-Control': 'no-cache' });
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const path = (req.url ?? '').split('?')[0];
+    const match = WORKSPACE_CHAT_ROUTE.exec(path);
+    const isWorkspaceList = req.method === 'GET' && path === WORKSPACE_LIST_ROUTE;
+
+    if (!isWorkspaceList && (req.method !== 'POST' || (!match && path !== COMPLETIONS_ROUTE))) {
+      sendJson(res, 404, { error: 'Bulunamadı.' });
+      return;
+    }
+
+    const workspace = match?.[1];
+    if (workspace && config.allowedWorkspaces.length > 0 && !config.allowedWorkspaces.includes(workspace)) {
+      sendJson(res, 403, { error: 'Bu çalışma alanına erişim izni yok.' });
+      return;
+    }
+
+    const limit = rateLimiter.consume(getClientKey(req, config.trustForwardedFor));
+    if (!limit.allowed) {
+      sendJson(
+        res,
+        429,
+        { error: 'Çok fazla istek gönderildi. Lütfen biraz bekleyip tekrar deneyin.' },
+        { 'Retry-After': String(limit.retryAfterSeconds) }
+      );
+      return;
+    }
+
+    try {
+      if (isWorkspaceList) {
+        await listWorkspaces(res);
+      } else {
+        await forward(req, res, path);
+      }
+    } catch (error) {
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message });
+        return;
+      }
+      console.error('Upstream request failed:', error);
+      sendJson(res, 502, { error: 'Yapay zeka sunucusuna ulaşılamadı.' });
+    }
+  };
+};
@@ -0,0 +1,47 @@
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Fixed-window request counter keyed by client. Small enough to keep in
+ * memory for a single school deployment; expired windows are swept
+ * periodically so idle clients don't accumulate.
+ */
+export class RateLimiter {
+  private windows = new Map<string, Window>();
+
+  constructor(private limit: number, private windowMs: number) {
+    setInterval(() => this.sweep(), windowMs).unref();
+  }
+
+  consume(key: string, now: number = Date.now()): RateLimitResult {
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + this.windowMs };
+      this.windows.set(key, window);
+    }
+
+    window.count += 1;
+
+    return {
+      allowed: window.count <= this.limit,
+      remaining: Math.max(0, this.limit - window.count),
+      retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000)
+    };
+  }
+
+  private sweep(now: number = Date.now()) {
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
@@ -1,39 +1,135 @@
-import React, { useState, useRef, useEffect, ChangeEvent } from 'react';
-import { Bot, Send, Image as ImageIcon, FileText, RotateCcw, Mic, MicOff, Volume2, VolumeX } from 'lucide-react';
-import { ChatMessage, ChatAttachment, Source } from './types';
-import { sendChatMessage, ChatApiError } from './api';
+import { useState, useRef, useEffect, useMemo, ChangeEvent, ClipboardEvent, DragEvent } from 'react';
+import { Bot, Send, FileText, Paperclip, Camera, Settings2, Loader2, RotateCcw, Mic, MicOff, Volume2, VolumeX, Square, PanelLeft, Clock, RefreshCw, AlertCircle, WifiOff, Pencil } from 'lucide-react';
+import { ChatMessage, ChatAttachment, ChatMode, ApiResponse, MessageFeedback } from './types';
+import { sendChatMessage, streamChatMessage, replayChatSession, ChatApiError, ChatAbortedError, isTransientError } from './api';
+import { retryWithBackoff } from './retry';
 import { useSpeechRecognition } from './hooks/useSpeechRecognition';
 import { useSpeechSynthesis } from './hooks/useSpeechSynthesis';
+import { useBargeIn } from './hooks/useBargeIn';
+import { matchWakePhrase } from './speech/wakePhrase';
+import { getConversationTitle, getConversationWorkspace, useConversations } from './hooks/useConversations';
+import { useWorkspaces } from './hooks/useWorkspaces';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { useLanguage } from './hooks/useLanguage';
+import { ConversationSidebar } from './components/ConversationSidebar';
+import { ChatErrorNotice } from './components/ChatErrorNotice';
+import { MarkdownMessage } from './components/MarkdownMessage';
+import { SourceCitations } from './components/SourceCitations';
+import { SourceDrawer } from './components/SourceDrawer';
+import { AttachmentPreview } from './components/AttachmentPreview';
+import { CameraCapture } from './components/CameraCapture';
+import { VoiceSettingsPanel } from './components/VoiceSettingsPanel';
+import { SpeechPlaybackBar } from './components/SpeechPlaybackBar';
+import { LanguageSwitcher } from './components/LanguageSwitcher';
+import { ExportMenu } from './components/ExportMenu';
+import { PrintableConversation } from './components/PrintableConversation';
+import { BranchSwitcher } from './components/BranchSwitcher';
+import { MessageEditor } from './components/MessageEditor';
+import { FeedbackControls } from './components/FeedbackControls';
+import { NoSourcesNotice } from './components/NoSourcesNotice';
+import { WorkspacePicker } from './components/WorkspacePicker';
+import { ACCEPTED_FILE_TYPES, AttachmentError, MAX_ATTACHMENTS, fitRequestLimit, formatFileSize, isImageAttachment, readAttachment } from './attachments';
+import { createSessionId } from './session';
+import { ConversationImportError, ExportFormat, downloadFile, exportFileName, parseConversationExport, toJson, toMarkdown } from './conversationExport';
+import { getConfig, getRefusalMessage } from './config';
+import { loadFeedbackLog, submitFeedback, toFeedbackCsv, toFeedbackJson } from './feedback';
+import { appendToBranch, getActivePath, getLatestLeaf, getSiblings, placeReply } from './messageTree';
+import { LANGUAGES, Language, detectLanguage } from './languages';
+import { rateRelevance } from './relevance';
+import headerUrl from '../header.jpg';
+
+const cameraSupported = typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+interface ChatTarget {
+  conversationId: string;
+  sessionId: string;
+  workspace: string;
+}
 
 function App() {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const {
+    conversations,
+    activeConversation,
+    selectConversation,
+    startConversation,
+    renameConversation,
+    updateConversation,
+    updateMessages,
+    importConversation,
+    deleteConversation
+  } = useConversations();
+  // Every branch of the conversation, and the one on screen
+  const allMessages = useMemo(() => activeConversation?.messages ?? [], [activeConversation]);
+  const messages = useMemo(
+    () => getActivePath(allMessages, activeConversation?.activeLeafId),
+    [allMessages, activeConversation?.activeLeafId]
+  );
+  const conversationId = activeConversation?.id ?? null;
+  const sessionId = activeConversation?.sessionId ?? '';
+  const workspace = getConversationWorkspace(activeConversation);
+  const workspaces = useWorkspaces();
+  const workspaceName = workspaces.find(w => w.slug === workspace)?.name ?? workspace;
+  // OpenAI-compatible servers have no workspaces; the slug means nothing there
+  const hasWorkspace = !!workspace && getConfig().provider === 'workspace';
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [attachment, setAttachment] = useState<ChatAttachment | null>(null);
-  const [mode, setMode] = useState<'query' | 'chat'>('chat');
-  const [sources, setSources] = useState<Source[]>([]);
-  const [showSources, setShowSources] = useState(false);
+  const [attachments, setAttachments] = useState<ChatAttachment[]>([]);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [isReadingAttachment, setIsReadingAttachment] = useState(false);
+  const [mode, setMode] = useState<ChatMode>(() => getConfig().defaultMode);
+  const [openCitation, setOpenCitation] = useState<{ messageId: string; index: number } | null>(null);
   const [autoSpeak, setAutoSpeak] = useState(true); // Default to true for voice conversation
   const [isVoiceMode, setIsVoiceMode] = useState(false);
+  // Voice mode callbacks outlive the render that created them
+  const isVoiceModeRef = useRef(false);
+  isVoiceModeRef.current = isVoiceMode;
+  const [isAwaitingWakePhrase, setIsAwaitingWakePhrase] = useState(false);
+  const [showSidebar, setShowSidebar] = useState(false);
+  const [showCamera, setShowCamera] = useState(false);
+  const [showVoiceSettings, setShowVoiceSettings] = useState(false);
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const citedMessage = openCitation ? messages.find(m => m.id === openCitation.messageId) : undefined;
   const fileInputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const isOnline = useOnlineStatus();
+  const { language, t } = useLanguage();
+  const speechLang = LANGUAGES[language].speechLang;
 
   // Speech hooks
   const {
     isListening,
     transcript,
     isSupported: speechRecognitionSupported,
+    error: speechRecognitionError,
     startListening,
     stopListening,
     resetTranscript
-  } = useSpeechRecognition();
+  } = useSpeechRecognition({ lang: speechLang });
 
   const {
     speak,
     stop: stopSpeaking,
+    pause: pauseSpeaking,
+    resume: resumeSpeaking,
+    seek: seekSpeaking,
     isSpeaking,
-    isSupported: speechSynthesisSupported
-  } = useSpeechSynthesis();
+    playback,
+    isSupported: speechSynthesisSupported,
+    voices,
+    settings: voiceSettings,
+    updateSettings: updateVoiceSettings,
+    unsupportedSettings: unsupportedVoiceSettings
+  } = useSpeechSynthesis({ lang: speechLang });
+
+  const activeTarget: ChatTarget | null = conversationId ? { conversationId, sessionId, workspace } : null;
+
+  // Message updates always name the conversation the request started in, so
+  // a reply that is still streaming can't spill into another conversation.
+  const patchMessage = (target: ChatTarget, messageId: string, changes: Partial<ChatMessage>) => {
+    updateMessages(target.conversationId, prev => prev.map(m => m.id === messageId ? { ...m, ...changes } : m));
+  };
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -43,194 +139,550 @@ function App() {
     scrollToBottom();
   }, [messages]);
 
-  // Handle voice conversation flow
-  const handleVoiceConversation = async (spokenText: string) => {
-    if (!spokenText.trim()) return;
+  // Stream the bot reply into a single message that grows as tokens arrive
+  const streamBotReply = async (target: ChatTarget, userMessage: ChatMessage) => {
+    const botMessageId = `${Date.now()}-bot`;
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let hasReceivedText = false;
 
-    // Add user message
-    const userMessage: ChatMessage = {
-      id: Date.now().toString(),
-      type: 'user',
-      message: spokenText,
-      timestamp: new Date(),
+    const updateReply = (update: (reply: ChatMessage) => ChatMessage) => {
+      updateConversation(target.conversationId, conversation => placeReply(conversation, userMessage.id, botMessageId, update));
     };
 
-    setMessages(prev => [...prev, userMessage]);
-    setIsLoading(true);
-    stopSpeaking();
-
+    let data: ApiResponse;
     try {
-      const data = await sendChatMessage(
-        spokenText,
-        mode,
-        'user-session-1'
+      data = await retryWithBackoff(
+        () => streamChatMessage(
+          userMessage.message,
+          userMessage.mode ?? mode,
+          target.sessionId,
+          userMessage.attachments,
+          (chunk) => {
+            hasReceivedText = true;
+            updateReply(reply => ({ ...reply, message: reply.message + chunk.textResponse }));
+          },
+          abortController.signal,
+          target.workspace
+        ),
+        {
+          signal: abortController.signal,
+          // Once part of the answer is on screen a retry would duplicate it
+          shouldRetry: (error) => !hasReceivedText && isTransientError(error),
+          onRetry: () => patchMessage(target, userMessage.id, { status: 'retrying' })
+        }
       );
-      
-      const botMessage: ChatMessage = {
-        id: data.id || Date.now().toString(),
-        type: 'bot',
-        message: data.textResponse,
-        timestamp: new Date(),
-      };
-
-      setMessages(prev => [...prev, botMessage]);
-      
-      // Update sources if available
-      if (data.sources && data.sources.length > 0) {
-        setSources(data.sources);
-      } else {
-        setSources([]);
+    } catch (error) {
+      // Keep whatever arrived before the user stopped the reply, marked as cancelled
+      if (error instanceof ChatAbortedError) {
+        updateReply(reply => ({ ...reply, status: 'cancelled' }));
       }
+      throw error;
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+    }
+
+    // Query mode only answers from documents; when none matched, a workspace
+    // can replace whatever the model said with its own wording
+    const replyMode = userMessage.mode ?? mode;
+    const refusal = replyMode === 'query' && data.sources.length === 0
+      ? getRefusalMessage(target.workspace)
+      : '';
+    const text = refusal || data.textResponse;
+
+    updateReply(reply => ({
+      ...reply,
+      message: text,
+      mode: replyMode,
+      sources: data.sources,
+      relevance: rateRelevance(text, data.sources) ?? undefined,
+      language: detectLanguage(text) ?? undefined,
+      responseId: data.id || undefined
+    }));
+
+    return { ...data, textResponse: text };
+  };
 
-      // Speak the response and then start listening again
-      if (data.textResponse) {
-        speak(data.textResponse, () => {
-          // After speaking is done, start listening again if in voice mode
-          if (isVoiceMode) {
-            setTimeout(() => {
-              startListening(handleVoiceConversation);
-            }, 1000);
-          }
-        });
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  /**
+   * Sends a user message that is already in the transcript and records the
+   * outcome on it. Resolves with the reply, or null when there is none.
+   */
+  const deliverMessage = async (target: ChatTarget, userMessage: ChatMessage): Promise<ApiResponse | null> => {
+    patchMessage(target, userMessage.id, { status: undefined, error: undefined });
+    setIsLoading(true);
+    stopSpeaking();
+
+    // The provider keeps a queued replay in memory only; after a reload it is
+    // rebuilt from the branch this message continues
+    const conversation = conversations.find(c => c.id === target.conversationId);
+    if (conversation?.replayPending && conversation.sessionId === target.sessionId) {
+      const transcript = userMessage.parentId === undefined
+        ? getActivePath(conversation.messages, conversation.activeLeafId)
+        : userMessage.parentId ? getActivePath(conversation.messages, userMessage.parentId) : [];
+      replayChatSession(target.sessionId, transcript);
+    }
+
+    try {
+      const data = await streamBotReply(target, userMessage);
+      patchMessage(target, userMessage.id, { status: undefined });
+      // The replay goes along with the first chat-mode message only
+      if ((userMessage.mode ?? mode) === 'chat') {
+        updateConversation(target.conversationId, current =>
+          current.sessionId === target.sessionId ? { replayPending: false } : {});
       }
-      
+      return data;
     } catch (error) {
-      const errorMessage = error instanceof ChatApiError 
-        ? error.message 
-        : 'Üzgünüm, bir hata oluştu. Lütfen tekrar deneyin.';
+      if (error instanceof ChatAbortedError) {
+        patchMessage(target, userMessage.id, { status: undefined });
+        return null;
+      }
 
       console.error('Hata:', error instanceof ChatApiError ? error.message : error);
-      
-      const botMessage: ChatMessage = {
-        id: Date.now().toString(),
-        type: 'bot',
-        message: errorMessage,
-        timestamp: new Date(),
-      };
-      setMessages(prev => [...prev, botMessage]);
 
-      // Even on error, continue voice mode if active
-      if (isVoiceMode) {
-        setTimeout(() => {
-          startListening(handleVoiceConversation);
-        }, 2000);
+      // Connection dropped mid-request: queue it again instead of giving up
+      if (error instanceof ChatApiError && error.code === 'network' && !navigator.onLine) {
+        patchMessage(target, userMessage.id, { status: 'pending' });
+        return null;
       }
+
+      patchMessage(target, userMessage.id, {
+        status: 'failed',
+        error: error instanceof ChatApiError
+          ? { code: error.code, status: error.status, retryAfterSeconds: error.retryAfterSeconds }
+          : { code: 'unknown' }
+      });
+      return null;
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  // Adds a user message to the active conversation and sends it, or queues it
+  // until the browser is back online.
+  const submitMessage = async (userMessage: ChatMessage): Promise<ApiResponse | null> => {
+    if (!activeTarget) return null;
+
+    if (!isOnline) {
+      updateConversation(activeTarget.conversationId, conversation => appendToBranch(conversation, { ...userMessage, status: 'pending' }));
+      return null;
+    }
+
+    updateConversation(activeTarget.conversationId, conversation => appendToBranch(conversation, userMessage));
+    return deliverMessage(activeTarget, userMessage);
+  };
+
+  const deliverMessageRef = useRef(deliverMessage);
+  useEffect(() => {
+    deliverMessageRef.current = deliverMessage;
+  });
+
+  // Replay queued messages one at a time once the connection is back
+  useEffect(() => {
+    if (!isOnline || isLoading) return;
+
+    for (const conversation of conversations) {
+      const pending = conversation.messages.find(m => m.type === 'user' && m.status === 'pending');
+      if (pending) {
+        deliverMessageRef.current({
+          conversationId: conversation.id,
+          sessionId: conversation.sessionId,
+          workspace: getConversationWorkspace(conversation)
+        }, pending);
+        return;
+      }
+    }
+  }, [isOnline, isLoading, conversations]);
+
+  const handleRetryMessage = (userMessage: ChatMessage) => {
+    if (!activeTarget || isLoading) return;
+    deliverMessage(activeTarget, userMessage);
+  };
+
+  /**
+   * Moves the conversation onto another branch ending at `leafId`. The server
+   * gets a fresh session that has seen exactly `transcript`; the old session
+   * is reset, since what it remembers belongs to the branch being left.
+   */
+  const switchBranch = (leafId: string, transcript: ChatMessage[]): ChatTarget | null => {
+    if (!activeTarget) return null;
+
+    const target = { ...activeTarget, sessionId: createSessionId() };
+    replayChatSession(target.sessionId, transcript);
+    updateConversation(target.conversationId, () => ({ sessionId: target.sessionId, activeLeafId: leafId, replayPending: true }));
+    setOpenCitation(null);
+    stopSpeaking();
+
+    sendChatMessage('', mode, activeTarget.sessionId, undefined, true, undefined, activeTarget.workspace).catch(error => {
+      console.error('Oturum sıfırlama hatası:', error);
+    });
+    return target;
+  };
+
+  /**
+   * Points the conversation at another workspace. What the old workspace's
+   * session remembers stays behind, so a fresh session is started that has
+   * seen the messages on screen.
+   */
+  const handleSelectWorkspace = (slug: string) => {
+    if (!activeTarget || isLoading || slug === activeTarget.workspace) return;
+
+    const nextSessionId = createSessionId();
+    replayChatSession(nextSessionId, messages);
+    updateConversation(activeTarget.conversationId, () => ({
+      workspace: slug,
+      sessionId: nextSessionId,
+      replayPending: messages.length > 0
+    }));
+    setOpenCitation(null);
+
+    if (messages.length > 0) {
+      sendChatMessage('', mode, activeTarget.sessionId, undefined, true, undefined, activeTarget.workspace).catch(error => {
+        console.error('Oturum sıfırlama hatası:', error);
+      });
+    }
+  };
+
+  // Sends an edited copy of a question as a new branch next to the original
+  const handleEditMessage = (original: ChatMessage, text: string, editedMode = original.mode) => {
+    setEditingMessageId(null);
+    if (isLoading || !text.trim()) return;
 
-    if (!file.type.startsWith('image/')) {
-      alert('Lütfen sadece resim dosyası yükleyin.');
+    const edited: ChatMessage = {
+      id: Date.now().toString(),
+      parentId: original.parentId ?? null,
+      type: 'user',
+      message: text,
+      timestamp: new Date(),
+      attachments: original.attachments,
+      mode: editedMode,
+      status: isOnline ? undefined : 'pending'
+    };
+    const target = switchBranch(edited.id, messages.slice(0, messages.indexOf(original)));
+    if (!target) return;
+
+    updateMessages(target.conversationId, prev => [...prev, edited]);
+    if (isOnline) deliverMessage(target, edited);
+  };
+
+  // Asks the same question again; the new answer becomes a branch next to the old one
+  const handleRegenerate = (reply: ChatMessage) => {
+    const question = messages.find(m => m.id === reply.parentId);
+    if (isLoading || !isOnline || !question) return;
+
+    const target = switchBranch(question.id, messages.slice(0, messages.indexOf(question)));
+    if (target) deliverMessage(target, question);
+  };
+
+  // Query mode found nothing in the documents; try the same question with general knowledge
+  const handleAskInChat = (reply: ChatMessage) => {
+    const question = messages.find(m => m.id === reply.parentId);
+    if (isLoading || !question) return;
+
+    setMode('chat');
+    handleEditMessage(question, question.message, 'chat');
+  };
+
+  const handleShowBranch = (message: ChatMessage, offset: number) => {
+    const siblings = getSiblings(allMessages, message);
+    const sibling = siblings[siblings.indexOf(message) + offset];
+    if (isLoading || !sibling) return;
+
+    const leafId = getLatestLeaf(allMessages, sibling.id);
+    switchBranch(leafId, getActivePath(allMessages, leafId));
+  };
+
+  // Answers are read in the language they are written in, not necessarily the one picked for the UI
+  const speechLangOf = (text: string, known?: Language) =>
+    LANGUAGES[known ?? detectLanguage(text) ?? language].speechLang;
+
+  /** Listens for one question; silence goes back to waiting for the wake phrase. */
+  const listenForTurn = () => {
+    if (!isVoiceModeRef.current) return;
+    setIsAwaitingWakePhrase(false);
+    startListening(
+      spokenText => voiceLoopRef.current.handleVoiceConversation(spokenText),
+      () => voiceLoopRef.current.waitForWakePhrase()
+    );
+  };
+
+  const waitForWakePhrase = () => {
+    if (!isVoiceModeRef.current) return;
+    const { wakePhrase } = getConfig();
+    if (!wakePhrase) {
+      listenForTurn();
       return;
     }
+    setIsAwaitingWakePhrase(true);
+    startListening(
+      spokenText => voiceLoopRef.current.handleWakeUtterance(spokenText),
+      () => voiceLoopRef.current.waitForWakePhrase()
+    );
+  };
 
-    try {
-      const reader = new FileReader();
-      reader.onload = () => {
-        const contentString = reader.result as string;
-        setAttachment({
-          name: file.name,
-          mime: file.type,
-          contentString
-        });
-      };
-      reader.readAsDataURL(file);
-    } catch (error) {
-      console.error('Dosya yükleme hatası:', error);
-      alert('Dosya yüklenirken bir hata oluştu.');
+  const handleWakeUtterance = (spokenText: string) => {
+    const question = matchWakePhrase(spokenText, getConfig().wakePhrase);
+    if (question === null) {
+      waitForWakePhrase();
+    } else if (question) {
+      setIsAwaitingWakePhrase(false);
+      handleVoiceConversation(question);
+    } else {
+      listenForTurn();
+    }
+  };
+
+  // Handle voice conversation flow
+  const handleVoiceConversation = async (spokenText: string) => {
+    if (!spokenText.trim()) return;
+
+    // Add user message
+    const userMessage: ChatMessage = {
+      id: Date.now().toString(),
+      type: 'user',
+      message: spokenText,
+      timestamp: new Date(),
+      mode
+    };
+
+    const data = await submitMessage(userMessage);
+
+    // Speak the response and then start listening again
+    if (data?.textResponse) {
+      speak(data.textResponse, {
+        lang: speechLangOf(data.textResponse),
+        // After speaking is done, listen for a follow-up without the wake phrase
+        onEnd: () => setTimeout(() => voiceLoopRef.current.listenForTurn(), 1000)
+      });
+    } else {
+      // Even on error, continue voice mode if active
+      setTimeout(() => voiceLoopRef.current.waitForWakePhrase(), 2000);
+    }
+  };
+
+  // Recognition and speech callbacks fire long after the render that set them
+  // up, so the loop calls back through this ref: each turn then uses the
+  // current mode, language and conversation
+  const voiceLoopRef = useRef({ listenForTurn, waitForWakePhrase, handleWakeUtterance, handleVoiceConversation });
+  useEffect(() => {
+    voiceLoopRef.current = { listenForTurn, waitForWakePhrase, handleWakeUtterance, handleVoiceConversation };
+  });
+
+  // Talking over an answer in voice mode stops it and starts a new turn
+  useBargeIn({
+    enabled: isVoiceMode && playback !== null,
+    onSpeech: () => {
+      stopSpeaking();
+      listenForTurn();
+    }
+  });
+
+  const addAttachments = async (files: File[]) => {
+    if (files.length === 0 || isLoading || isReadingAttachment) return;
+
+    const room = MAX_ATTACHMENTS - attachments.length;
+    if (files.length > room) {
+      alert(t('attachments.tooMany', { max: MAX_ATTACHMENTS }));
+      if (room <= 0) return;
+    }
+
+    setIsReadingAttachment(true);
+    const results = await Promise.allSettled(files.slice(0, room).map(readAttachment));
+    setIsReadingAttachment(false);
+
+    const read = results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+    const { accepted, errors: oversized } = fitRequestLimit(attachments, read);
+    setAttachments(prev => [...prev, ...accepted]);
+
+    const errors = [...results.flatMap(result => (result.status === 'rejected' ? [result.reason] : [])), ...oversized];
+    if (errors.length > 0) {
+      errors.filter(error => !(error instanceof AttachmentError)).forEach(error => console.error('Dosya yükleme hatası:', error));
+      alert(errors.map(error => (error instanceof AttachmentError ? t(`attachmentError.${error.code}`, error.params) : t('attachments.readFailed'))).join('\n'));
     }
   };
 
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    addAttachments(files);
+  };
+
+  const handlePaste = (e: ClipboardEvent<HTMLInputElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+
+    // Keep the file's name or path from also being pasted as text
+    e.preventDefault();
+    addAttachments(files);
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+    if (isVoiceMode || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFile(true);
+  };
+
+  const handleDragLeave = (e: DragEvent<HTMLDivElement>) => {
+    // dragleave also fires when moving onto a child element
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDraggingFile(false);
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    if (isVoiceMode) return;
+    e.preventDefault();
+    setIsDraggingFile(false);
+    addAttachments(Array.from(e.dataTransfer.files));
+  };
+
+  const removeAttachment = (index: number) => {
+    setAttachments(prev => prev.filter((_, i) => i !== index));
+  };
+
   const handleResetChat = async () => {
-    if (isLoading) return;
+    if (isLoading || !conversationId) return;
     
-    setMessages([]);
-    setSources([]);
-    setShowSources(false);
+    // Start over with a new server-side session so nothing from the old one leaks back in
+    const previousSessionId = sessionId;
+    updateConversation(conversationId, () => ({ messages: [], activeLeafId: undefined, sessionId: createSessionId() }));
+    setOpenCitation(null);
     setIsVoiceMode(false);
     stopSpeaking();
     stopListening();
     
     // Send a reset request to the API
     try {
-      await sendChatMessage('', mode, 'user-session-1', undefined, true);
+      await sendChatMessage('', mode, previousSessionId, undefined, true, undefined, workspace);
     } catch (error) {
       console.error('Chat sıfırlama hatası:', error);
     }
   };
 
   const handleSendMessage = async () => {
-    if (!input.trim() && !attachment) return;
+    if (isReadingAttachment || (!input.trim() && attachments.length === 0)) return;
 
     const userMessage: ChatMessage = {
       id: Date.now().toString(),
       type: 'user',
       message: input,
       timestamp: new Date(),
-      attachment: attachment || undefined
+      attachments: attachments.length > 0 ? attachments : undefined,
+      mode
     };
 
-    setMessages(prev => [...prev, userMessage]);
     setInput('');
-    setAttachment(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
+    setAttachments([]);
+
+    const data = await submitMessage(userMessage);
+
+    // Auto-speak the response if enabled
+    if (autoSpeak && data?.textResponse) {
+      setTimeout(() => {
+        speak(data.textResponse, { lang: speechLangOf(data.textResponse) });
+      }, 500);
     }
-    setIsLoading(true);
+  };
+
+  const leaveConversation = () => {
+    setOpenCitation(null);
+    setEditingMessageId(null);
+    setIsVoiceMode(false);
+    setShowSidebar(false);
     stopSpeaking();
+    stopListening();
+  };
+
+  const handleSelectConversation = (id: string) => {
+    if (id === conversationId) {
+      setShowSidebar(false);
+      return;
+    }
+    leaveConversation();
+    selectConversation(id);
+  };
+
+  const handleNewConversation = () => {
+    leaveConversation();
+    // Stay in the workspace the user is working with
+    startConversation(workspace);
+  };
+
+  // Rated answers go to the feedback log with the question and sources, so
+  // wrong answers can be traced back to the documents behind them
+  const handleFeedback = (reply: ChatMessage, feedback: MessageFeedback) => {
+    if (!activeTarget) return;
+
+    const question = allMessages.find(m => m.id === reply.parentId);
+    patchMessage(activeTarget, reply.id, { feedback });
+    submitFeedback({
+      messageId: reply.id,
+      responseId: reply.responseId ?? '',
+      conversationId: activeTarget.conversationId,
+      workspace: activeTarget.workspace,
+      rating: feedback.rating,
+      comment: feedback.comment,
+      question: question?.message ?? '',
+      answer: reply.message,
+      mode: question?.mode ?? mode,
+      sources: reply.sources ?? [],
+      createdAt: new Date().toISOString()
+    }).catch(error => {
+      console.error('Geri bildirim kaydedilemedi:', error);
+    });
+  };
 
+  const handleExportFeedback = async (format: 'csv' | 'json') => {
     try {
-      const data = await sendChatMessage(
-        input,
-        mode,
-        'user-session-1',
-        attachment ? [attachment] : undefined
-      );
-      
-      const botMessage: ChatMessage = {
-        id: data.id || Date.now().toString(),
-        type: 'bot',
-        message: data.textResponse,
-        timestamp: new Date(),
-      };
-
-      setMessages(prev => [...prev, botMessage]);
-      
-      // Update sources if available
-      if (data.sources && data.sources.length > 0) {
-        setSources(data.sources);
-      } else {
-        setSources([]);
+      const records = await loadFeedbackLog();
+      if (records.length === 0) {
+        alert(t('sidebar.noFeedback'));
+        return;
       }
-
-      // Auto-speak the response if enabled
-      if (autoSpeak && data.textResponse) {
-        setTimeout(() => {
-          speak(data.textResponse);
-        }, 500);
+      if (format === 'csv') {
+        downloadFile(exportFileName('geri-bildirim', 'csv'), toFeedbackCsv(records), 'text/csv;charset=utf-8');
+      } else {
+        downloadFile(exportFileName('geri-bildirim', 'json'), toFeedbackJson(records), 'application/json');
       }
-      
     } catch (error) {
-      const errorMessage = error instanceof ChatApiError 
-        ? error.message 
-        : 'Üzgünüm, bir hata oluştu. Lütfen tekrar deneyin.';
+      console.error('Geri bildirimler okunamadı:', error);
+    }
+  };
 
-      console.error('Hata:', error instanceof ChatApiError ? error.message : error);
-      
-      const botMessage: ChatMessage = {
-        id: Date.now().toString(),
-        type: 'bot',
-        message: errorMessage,
-        timestamp: new Date(),
-      };
-      setMessages(prev => [...prev, botMessage]);
-    } finally {
-      setIsLoading(false);
+  const handleExport = (format: ExportFormat) => {
+    if (!activeConversation) return;
+
+    const title = getConversationTitle(activeConversation, t('sidebar.untitled'));
+    if (format === 'markdown') {
+      downloadFile(exportFileName(title, 'md'), toMarkdown(activeConversation, title, language), 'text/markdown;charset=utf-8');
+    } else if (format === 'json') {
+      downloadFile(exportFileName(title, 'json'), toJson(activeConversation), 'application/json');
+    } else {
+      // The printable view prints itself once its header image is in
+      setIsPrinting(true);
+    }
+  };
+
+  useEffect(() => {
+    if (!isPrinting) return;
+    const handleAfterPrint = () => setIsPrinting(false);
+    window.addEventListener('afterprint', handleAfterPrint);
+    return () => window.removeEventListener('afterprint', handleAfterPrint);
+  }, [isPrinting]);
+
+  const handleImportConversation = async (file: File) => {
+    try {
+      const conversation = parseConversationExport(await file.text());
+      leaveConversation();
+      importConversation(conversation);
+    } catch (error) {
+      console.error('Sohbet içe aktarılamadı:', error);
+      alert(error instanceof ConversationImportError ? t(`importError.${error.code}`, error.params) : t('importError.invalid-format'));
     }
   };
 
@@ -241,17 +693,18 @@ function App() {
       stopListening();
       stopSpeaking();
     } else {
-      // Start voice mode
+      // Start voice mode; the ref is read before the next render
+      isVoiceModeRef.current = true;
       setIsVoiceMode(true);
-      startListening(handleVoiceConversation);
+      waitForWakePhrase();
     }
   };
 
-  const handleSpeakMessage = (message: string) => {
-    if (isSpeaking) {
+  const handleSpeakMessage = (message: ChatMessage) => {
+    if (playback?.text === message.message) {
       stopSpeaking();
     } else {
-      speak(message);
+      speak(message.message, { lang: speechLangOf(message.message, message.language) });
     }
   };
 
@@ -264,16 +717,16 @@ function App() {
   }, [transcript, isVoiceMode, resetTranscript]);
 
   return (
-    <div className="flex flex-col h-screen bg-gray-50">
+    <div className={`flex flex-col h-screen bg-gray-50 ${isPrinting ? 'print:block print:h-auto print:bg-white' : ''}`}>
       {/* Header */}
-      <div className="w-full relative h-[10vh] min-h-[80px] max-h-[100px]">
+      <div className={`w-full relative h-[10vh] min-h-[80px] max-h-[100px] ${isPrinting ? 'print:hidden' : ''}`}>
         <img
-          src="/header.jpg"
+          src={headerUrl}
           className="w-full h-full object-cover"
           alt="Header"
         />
         <div 
-          className="absolute inset-0 flex items-center justify-center"
+          className="absolute inset-0 flex flex-col items-center justify-center"
           style={{
             background: 'linear-gradient(to bottom, rgba(0, 51, 102, 0.85), rgba(0, 102, 204, 0.75))'
           }}
@@ -281,17 +734,58 @@ function App() {
           <h1 className="text-lg sm:text-xl md:text-2xl lg:text-3xl font-bold text-white drop-shadow-lg tracking-wider">
             TURGUT ÖZAL KAİHL
           </h1>
+          {hasWorkspace && (
+            <span className="mt-1 px-2 py-0.5 text-xs sm:text-sm text-white bg-white/15 border border-white/30 rounded-full" title={t('controls.workspace')}>
+              {workspaceName}
+            </span>
+          )}
         </div>
       </div>
 
       {/* Chat Container */}
-      <div className="flex-1 max-w-4xl mx-auto w-full px-4 sm:px-6 py-4">
-        <div className="bg-white rounded-2xl shadow-xl border border-gray-200 h-full flex flex-col">
+      <div className={`flex-1 min-h-0 max-w-6xl mx-auto w-full px-4 sm:px-6 py-4 flex gap-4 ${isPrinting ? 'print:hidden' : ''}`}>
+        {/* Conversation Sidebar */}
+        {showSidebar && (
+          <div className="fixed inset-0 z-10 bg-black/30 md:hidden" onClick={() => setShowSidebar(false)} />
+        )}
+        <div className={`${showSidebar ? 'fixed inset-y-4 start-4 z-20 w-64' : 'hidden'} md:static md:block md:w-64 flex-shrink-0`}>
+          <ConversationSidebar
+            conversations={conversations}
+            activeId={conversationId}
+            disabled={isLoading}
+            onSelect={handleSelectConversation}
+            onNew={handleNewConversation}
+            onRename={renameConversation}
+            onDelete={deleteConversation}
+            onImport={handleImportConversation}
+            onExportFeedback={handleExportFeedback}
+          />
+        </div>
+
+        <div
+          className="relative flex-1 min-w-0 bg-white rounded-2xl shadow-xl border border-gray-200 h-full flex flex-col"
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+        >
+          {isDraggingFile && (
+            <div className="absolute inset-0 z-10 m-2 rounded-2xl border-2 border-dashed border-[#003366] bg-blue-50/90 flex flex-col items-center justify-center gap-2 text-[#003366] pointer-events-none">
+              <Paperclip className="w-8 h-8" />
+              <span className="font-medium">{t('attachments.dropHint')}</span>
+            </div>
+          )}
           {/* Control Panel */}
           <div className="border-b border-gray-200 p-4 bg-gray-50 rounded-t-2xl">
             <div className="flex items-center justify-between flex-wrap gap-3">
-              <div className="flex items-center gap-3">
-                <span className="text-sm font-medium text-gray-700">Mod:</span>
+              <div className="flex flex-wrap items-center gap-3">
+                <button
+                  onClick={() => setShowSidebar(true)}
+                  className="md:hidden p-2 text-[#003366] hover:bg-gray-100 rounded-lg transition-colors"
+                  title={t('controls.history')}
+                >
+                  <PanelLeft className="w-4 h-4" />
+                </button>
+                <span className="text-sm font-medium text-gray-700">{t('controls.mode')}</span>
                 <div className="flex bg-white rounded-lg border border-gray-200 overflow-hidden">
                   <button
                     onClick={() => setMode('chat')}
@@ -301,7 +795,7 @@ function App() {
                         : 'text-gray-600 hover:bg-gray-50'
                     }`}
                   >
-                    Chat
+                    {t('mode.chat')}
                   </button>
                   <button
                     onClick={() => setMode('query')}
@@ -311,11 +805,21 @@ function App() {
                         : 'text-gray-600 hover:bg-gray-50'
                     }`}
                   >
-                    Query
+                    {t('mode.query')}
                   </button>
                 </div>
+                {hasWorkspace && workspaces.length > 1 && (
+                  <WorkspacePicker
+                    workspaces={workspaces}
+                    value={workspace}
+                    disabled={isLoading || isVoiceMode}
+                    onChange={handleSelectWorkspace}
+                  />
+                )}
               </div>
               <div className="flex items-center gap-3">
+                <LanguageSwitcher />
+
                 {/* Voice Mode Toggle */}
                 {speechRecognitionSupported && speechSynthesisSupported && (
                   <button
@@ -326,10 +830,10 @@ function App() {
                         ? 'bg-green-500 text-white hover:bg-green-600'
                         : 'bg-blue-50 text-blue-700 hover:bg-blue-100'
                     } disabled:opacity-50 disabled:cursor-not-allowed`}
-                    title={isVoiceMode ? 'Sesli konuşmayı durdur' : 'Sesli konuşma başlat'}
+                    title={isVoiceMode ? t('controls.stopVoiceMode') : t('controls.startVoiceMode')}
                   >
                     {isVoiceMode ? <MicOff className="w-4 h-4" /> : <Mic className="w-4 h-4" />}
-                    {isVoiceMode ? 'Sesli Mod Aktif' : 'Sesli Konuşma'}
+                    {isVoiceMode ? t('controls.voiceModeActive') : t('controls.voiceMode')}
                   </button>
                 )}
                 
@@ -342,39 +846,39 @@ function App() {
                         ? 'bg-green-50 text-green-700 hover:bg-green-100'
                         : 'bg-gray-50 text-gray-700 hover:bg-gray-100'
                     }`}
-                    title={autoSpeak ? 'Otomatik konuşmayı kapat' : 'Otomatik konuşmayı aç'}
+                    title={autoSpeak ? t('controls.disableAutoSpeak') : t('controls.enableAutoSpeak')}
                   >
                     {autoSpeak ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
-                    Otomatik Ses
+                    {t('controls.autoSpeak')}
                   </button>
                 )}
-                
-                {sources.length > 0 && (
+
+                {speechSynthesisSupported && (
                   <button
-                    onClick={() => setShowSources(!showSources)}
-                    className="flex items-center gap-2 px-3 py-2 text-sm bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 transition-colors"
+                    onClick={() => setShowVoiceSettings(true)}
+                    className="p-2 text-[#003366] bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors"
+                    title={t('controls.voiceSettings')}
                   >
-                    <FileText className="w-4 h-4" />
-                    Kaynaklar ({sources.length})
+                    <Settings2 className="w-4 h-4" />
                   </button>
                 )}
+
+                <ExportMenu disabled={isLoading || messages.length === 0} onExport={handleExport} />
+                
                 <button
                   onClick={handleResetChat}
                   disabled={isLoading}
                   className="flex items-center gap-2 px-3 py-2 text-sm bg-red-50 text-red-700 rounded-lg hover:bg-red-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   <RotateCcw className="w-4 h-4" />
-                  Sıfırla
+                  {t('controls.reset')}
                 </button>
               </div>
             </div>
             
             {/* Mode Description */}
             <div className="mt-3 text-xs text-gray-600">
-              {mode === 'chat' 
-                ? 'Chat modu: Genel bilgi ve özel verilerle yanıt verir, sohbet geçmişini hatırlar.'
-                : 'Query modu: Sadece veritabanındaki ilgili kaynaklardan yanıt verir, geçmiş hatırlanmaz.'
-              }
+              {mode === 'chat' ? t('mode.chatDescription') : t('mode.queryDescription')}
             </div>
 
             {/* Voice Status */}
@@ -383,13 +887,13 @@ function App() {
                 {speechRecognitionSupported && (
                   <span className="flex items-center gap-1">
                     <Mic className="w-3 h-3" />
-                    Ses tanıma destekleniyor
+                    {t('voice.recognitionSupported')}
                   </span>
                 )}
                 {speechSynthesisSupported && (
                   <span className="flex items-center gap-1">
                     <Volume2 className="w-3 h-3" />
-                    Sesli okuma destekleniyor
+                    {t('voice.synthesisSupported')}
                   </span>
                 )}
               </div>
@@ -406,41 +910,30 @@ function App() {
                     <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse"></div>
                   )}
                   <span className="text-sm text-green-700 font-medium">
-                    {isListening ? '🎤 Dinleniyor...' : isSpeaking ? '🔊 Konuşuyor...' : '⏳ Hazır...'}
+                    {isAwaitingWakePhrase
+                      ? t('voice.awaitingWakePhrase', { phrase: getConfig().wakePhrase })
+                      : isListening ? t('voice.listening') : isSpeaking ? t('voice.speaking') : t('voice.ready')}
                   </span>
                 </div>
                 <p className="text-xs text-green-600 mt-1">
-                  Sesli konuşma modu aktif. Konuşun, yanıt alın ve otomatik olarak tekrar dinlemeye başlar.
+                  {getConfig().wakePhrase
+                    ? t('voice.wakePhraseHint', { phrase: getConfig().wakePhrase })
+                    : t('voice.hint')}
                 </p>
               </div>
             )}
           </div>
 
-          {/* Sources Panel */}
-          {showSources && sources.length > 0 && (
-            <div className="border-b border-gray-200 p-4 bg-blue-50 max-h-48 overflow-y-auto">
-              <h3 className="font-medium text-blue-900 mb-3">Kullanılan Kaynaklar:</h3>
-              <div className="space-y-2">
-                {sources.map((source, index) => (
-                  <div key={index} className="bg-white p-3 rounded-lg border border-blue-200">
-                    <div className="font-medium text-blue-800 text-sm mb-1">{source.title}</div>
-                    <div className="text-xs text-gray-600 line-clamp-3">{source.chunk}</div>
-                  </div>
-                ))}
-              </div>
-            </div>
-          )}
-
           {/* Messages Area */}
           <div className="flex-1 overflow-y-auto p-4 sm:p-6">
             {messages.length === 0 && (
               <div className="text-center text-gray-600 py-8">
                 <div className="bg-gray-50 p-6 rounded-2xl border border-gray-200 shadow-lg">
                   <Bot className="w-12 h-12 mx-auto mb-4 text-[#003366]" />
-                  <p className="text-xl sm:text-2xl font-medium mb-3">Merhaba! Size nasıl yardımcı olabilirim?</p>
-                  <p className="text-gray-500">Herhangi bir sorunuzu yanıtlamaya hazırım.</p>
+                  <p className="text-xl sm:text-2xl font-medium mb-3">{t('welcome.title')}</p>
+                  <p className="text-gray-500">{t('welcome.subtitle')}</p>
                   {speechRecognitionSupported && speechSynthesisSupported && (
-                    <p className="text-sm text-blue-600 mt-2">💡 "Sesli Konuşma" butonuna basarak sürekli sesli sohbet edebilirsiniz!</p>
+                    <p className="text-sm text-blue-600 mt-2">{t('welcome.voiceTip')}</p>
                   )}
                 </div>
               </div>
@@ -449,9 +942,11 @@ function App() {
             {messages.map((msg) => (
               <div
                 key={msg.id}
-                className={`mb-4 flex ${msg.type === 'user' ? 'justify-end' : 'justify-start'}`}
+                className={`mb-4 flex flex-col ${msg.type === 'user' ? 'items-end' : 'items-start'}`}
               >
                 <div
+                  dir={msg.language ? LANGUAGES[msg.language].dir : 'auto'}
+                  lang={msg.language}
                   className={`max-w-[85%] sm:max-w-[75%] rounded-2xl p-4 ${
                     msg.type === 'user'
                       ? 'bg-[#003366] text-white shadow-lg'
@@ -461,77 +956,223 @@ function App() {
                   {msg.type === 'bot' && (
                     <div className="flex items-center justify-between mb-2">
                       <div className="flex items-center">
-                        <Bot className="w-5 h-5 mr-2 text-[#003366]" />
-                        <span className="font-medium text-[#003366]">Asistan</span>
+                        <Bot className="w-5 h-5 me-2 text-[#003366]" />
+                        <span className="font-medium text-[#003366]">{t('message.assistant')}</span>
                       </div>
                       {speechSynthesisSupported && !isVoiceMode && (
                         <button
-                          onClick={() => handleSpeakMessage(msg.message)}
+                          onClick={() => handleSpeakMessage(msg)}
                           className="p-1 text-[#003366] hover:bg-gray-200 rounded transition-colors"
-                          title={isSpeaking ? 'Konuşmayı durdur' : 'Sesli oku'}
+                          title={playback?.text === msg.message ? t('message.stopSpeaking') : t('message.speak')}
                         >
-                          {isSpeaking ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+                          {playback?.text === msg.message ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
                         </button>
                       )}
                     </div>
                   )}
-                  <p className="text-sm sm:text-base leading-relaxed whitespace-pre-wrap">{msg.message}</p>
-                  {msg.attachment && (
-                    <div className="mt-2">
-                      <img 
-                        src={msg.attachment.contentString} 
-                        alt={msg.attachment.name}
-                        className="max-w-full rounded-lg"
-                      />
+                  {editingMessageId === msg.id ? (
+                    <MessageEditor
+                      initialText={msg.message}
+                      onSubmit={(text) => handleEditMessage(msg, text)}
+                      onCancel={() => setEditingMessageId(null)}
+                    />
+                  ) : msg.message && (msg.type === 'bot' ? (
+                    <MarkdownMessage
+                      text={msg.message}
+                      isStreaming={isLoading && msg.id === messages[messages.length - 1]?.id}
+                      highlight={playback?.text === msg.message ? playback : undefined}
+                    />
+                  ) : (
+                    <p className="text-sm sm:text-base leading-relaxed whitespace-pre-wrap">{msg.message}</p>
+                  ))}
+                  {msg.type === 'bot' && !isVoiceMode && playback?.text === msg.message && (
+                    <SpeechPlaybackBar
+                      playback={playback}
+                      onSeek={seekSpeaking}
+                      onPause={pauseSpeaking}
+                      onResume={resumeSpeaking}
+                      onStop={stopSpeaking}
+                    />
+                  )}
+                  {msg.type === 'bot' && msg.sources && msg.sources.length > 0 && (
+                    <SourceCitations
+                      sources={msg.sources}
+                      relevance={msg.relevance}
+                      onSelect={(index) => setOpenCitation({ messageId: msg.id, index })}
+                    />
+                  )}
+                  {msg.type === 'bot' && msg.mode === 'query' && msg.sources?.length === 0 && (
+                    <NoSourcesNotice disabled={isLoading} onAskInChat={() => handleAskInChat(msg)} />
+                  )}
+                  {msg.status === 'cancelled' && (
+                    <div className={`flex items-center gap-1 text-xs italic text-gray-500 ${msg.message ? 'mt-2' : ''}`}>
+                      <Square className="w-3 h-3" />
+                      {t('message.cancelled')}
+                    </div>
+                  )}
+                  {msg.attachments && msg.attachments.length > 0 && (
+                    <div className="mt-2 flex flex-col gap-2">
+                      {msg.attachments.map((item, index) => (
+                        <AttachmentPreview key={index} attachment={item} />
+                      ))}
                     </div>
                   )}
                   <span className="text-xs opacity-75 mt-2 block">
                     {msg.timestamp.toLocaleTimeString()}
                   </span>
+                  {msg.type === 'user' && msg.status && msg.status !== 'cancelled' && (
+                    <div className="mt-2 pt-2 border-t border-white/20 flex items-center justify-between gap-3 text-xs">
+                      <span className="flex items-center gap-1">
+                        {msg.status === 'pending' && (
+                          <>
+                            <Clock className="w-3 h-3" />
+                            {t('message.pending')}
+                          </>
+                        )}
+                        {msg.status === 'retrying' && (
+                          <>
+                            <RefreshCw className="w-3 h-3 animate-spin" />
+                            {t('message.retrying')}
+                          </>
+                        )}
+                        {msg.status === 'failed' && (
+                          <>
+                            <AlertCircle className="w-3 h-3" />
+                            {t('message.failed')}
+                          </>
+                        )}
+                      </span>
+                    </div>
+                  )}
                 </div>
+                {!isVoiceMode && editingMessageId !== msg.id && msg.status !== 'pending' && msg.status !== 'retrying' && (
+                  <div className="mt-1 max-w-[85%] sm:max-w-[75%] flex flex-wrap items-center gap-1 text-xs text-gray-500">
+                    <BranchSwitcher
+                      versions={getSiblings(allMessages, msg)}
+                      current={msg}
+                      disabled={isLoading}
+                      onChange={(offset) => handleShowBranch(msg, offset)}
+                    />
+                    {msg.type === 'user' ? (
+                      <button
+                        onClick={() => setEditingMessageId(msg.id)}
+                        disabled={isLoading}
+                        className="p-1 rounded hover:bg-gray-200 hover:text-[#003366] disabled:opacity-40 disabled:hover:bg-transparent"
+                        title={t('message.edit')}
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                    ) : msg.parentId && !(isLoading && msg.id === messages[messages.length - 1]?.id) && (
+                      <>
+                        <button
+                          onClick={() => handleRegenerate(msg)}
+                          disabled={isLoading || !isOnline}
+                          className="p-1 rounded hover:bg-gray-200 hover:text-[#003366] disabled:opacity-40 disabled:hover:bg-transparent"
+                          title={t('message.regenerate')}
+                        >
+                          <RefreshCw className="w-3.5 h-3.5" />
+                        </button>
+                        {msg.message && msg.status !== 'cancelled' && (
+                          <FeedbackControls
+                            key={msg.id}
+                            feedback={msg.feedback}
+                            disabled={isLoading}
+                            onSubmit={(feedback) => handleFeedback(msg, feedback)}
+                          />
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+                {msg.type === 'user' && msg.status === 'failed' && (
+                  <div className="max-w-[85%] sm:max-w-[75%] w-full">
+                    <ChatErrorNotice
+                      error={msg.error ?? { code: 'unknown' }}
+                      disabled={isLoading}
+                      onRetry={() => handleRetryMessage(msg)}
+                    />
+                  </div>
+                )}
               </div>
             ))}
             
             {isLoading && (
-              <div className="flex justify-start mb-4">
-                <div className="bg-gray-50 border border-gray-200 rounded-2xl p-4">
-                  <div className="flex items-center">
-                    <Bot className="w-5 h-5 mr-2 text-[#003366]" />
-                    <div className="flex space-x-2">
-                      <div className="w-2 h-2 bg-[#003366] rounded-full animate-bounce"></div>
-                      <div className="w-2 h-2 bg-[#003366] rounded-full animate-bounce delay-150"></div>
-                      <div className="w-2 h-2 bg-[#003366] rounded-full animate-bounce delay-300"></div>
+              <div className="flex justify-start items-center gap-3 mb-4">
+                {messages[messages.length - 1]?.type !== 'bot' && (
+                  <div className="bg-gray-50 border border-gray-200 rounded-2xl p-4">
+                    <div className="flex items-center">
+                      <Bot className="w-5 h-5 me-2 text-[#003366]" />
+                      <div className="flex space-x-2">
+                        <div className="w-2 h-2 bg-[#003366] rounded-full animate-bounce"></div>
+                        <div className="w-2 h-2 bg-[#003366] rounded-full animate-bounce delay-150"></div>
+                        <div className="w-2 h-2 bg-[#003366] rounded-full animate-bounce delay-300"></div>
+                      </div>
                     </div>
                   </div>
-                </div>
+                )}
+                <button
+                  onClick={handleStopGeneration}
+                  className="flex items-center gap-2 px-3 py-2 text-sm bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+                  title={t('message.stopGenerating')}
+                >
+                  <Square className="w-4 h-4" />
+                  {t('message.stop')}
+                </button>
               </div>
             )}
             <div ref={messagesEndRef} />
           </div>
 
+          {/* Offline Notice */}
+          {!isOnline && (
+            <div className="border-t border-amber-200 px-4 py-2 bg-amber-50 flex items-center gap-2 text-sm text-amber-800">
+              <WifiOff className="w-4 h-4 flex-shrink-0" />
+              {t('offline.notice')}
+            </div>
+          )}
+
+          {/* Speech Recognition Error */}
+          {speechRecognitionError && !(isVoiceMode && speechRecognitionError === 'no-speech') && (
+            <div className="border-t border-red-200 px-4 py-2 bg-red-50 flex items-center gap-2 text-sm text-red-700">
+              <MicOff className="w-4 h-4 flex-shrink-0" />
+              {t(`speechError.${speechRecognitionError}`)}
+            </div>
+          )}
+
           {/* Input Area - Hidden in voice mode */}
           {!isVoiceMode && (
             <div className="border-t border-gray-200 p-4 bg-white rounded-b-2xl">
-              {attachment && (
-                <div className="mb-2 p-2 bg-gray-50 rounded-lg flex items-center justify-between">
-                  <div className="flex items-center">
-                    <ImageIcon className="w-5 h-5 mr-2 text-[#003366]" />
-                    <span className="text-sm text-gray-600">{attachment.name}</span>
+              {isReadingAttachment && (
+                <div className="mb-2 p-2 bg-gray-50 rounded-lg flex items-center gap-2 text-sm text-gray-600">
+                  <Loader2 className="w-4 h-4 animate-spin text-[#003366]" />
+                  {t('input.readingAttachment')}
+                </div>
+              )}
+              {attachments.map((item, index) => (
+                <div key={index} className="mb-2 p-2 bg-gray-50 rounded-lg flex items-center justify-between">
+                  <div className="flex items-center min-w-0">
+                    {isImageAttachment(item)
+                      ? <img src={item.contentString} alt="" className="w-8 h-8 me-2 object-cover rounded flex-shrink-0" />
+                      : <FileText className="w-5 h-5 me-2 text-[#003366] flex-shrink-0" />}
+                    <span className="text-sm text-gray-600 truncate">{item.name}</span>
+                    {item.size !== undefined && (
+                      <span className="text-xs text-gray-400 ms-2 flex-shrink-0">{formatFileSize(item.size)}</span>
+                    )}
                   </div>
                   <button
-                    onClick={() => setAttachment(null)}
+                    onClick={() => removeAttachment(index)}
                     className="text-red-500 hover:text-red-700 text-sm"
                   >
-                    Kaldır
+                    {t('input.removeAttachment')}
                   </button>
                 </div>
-              )}
+              ))}
               
               {/* Voice Recognition Status */}
               {isListening && !isVoiceMode && (
                 <div className="mb-2 p-2 bg-red-50 rounded-lg flex items-center gap-2">
                   <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></div>
-                  <span className="text-sm text-red-700">Dinleniyor... Konuşmaya başlayın</span>
+                  <span className="text-sm text-red-700">{t('input.listening')}</span>
                 </div>
               )}
 
@@ -541,25 +1182,37 @@ function App() {
                   value={input}
                   onChange={(e) => setInput(e.target.value)}
                   onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
-                  placeholder="Mesajınızı yazın veya mikrofon butonuna basın..."
+                  onPaste={handlePaste}
+                  placeholder={t('input.placeholder')}
                   className="flex-1 p-3 sm:p-4 bg-gray-50 border border-gray-200 rounded-xl text-gray-800 placeholder-gray-400 focus:outline-none focus:border-[#003366] focus:ring-1 focus:ring-[#003366] transition-colors"
                   disabled={isLoading}
                 />
                 <input
                   type="file"
-                  accept="image/*"
+                  accept={ACCEPTED_FILE_TYPES}
+                  multiple
                   onChange={handleFileChange}
                   className="hidden"
                   ref={fileInputRef}
                 />
                 <button
                   onClick={() => fileInputRef.current?.click()}
-                  disabled={isLoading}
+                  disabled={isLoading || isReadingAttachment || attachments.length >= MAX_ATTACHMENTS}
                   className="p-3 sm:p-4 text-[#003366] hover:bg-gray-100 rounded-xl transition-colors disabled:text-gray-400 disabled:hover:bg-transparent"
-                  title="Resim ekle"
+                  title={t('input.attach')}
                 >
-                  <ImageIcon className="w-5 h-5" />
+                  <Paperclip className="w-5 h-5" />
                 </button>
+                {cameraSupported && (
+                  <button
+                    onClick={() => setShowCamera(true)}
+                    disabled={isLoading || isReadingAttachment || attachments.length >= MAX_ATTACHMENTS}
+                    className="p-3 sm:p-4 text-[#003366] hover:bg-gray-100 rounded-xl transition-colors disabled:text-gray-400 disabled:hover:bg-transparent"
+                    title={t('input.camera')}
+                  >
+                    <Camera className="w-5 h-5" />
+                  </button>
+                )}
                 
                 {/* Manual Voice Recognition Button */}
                 {speechRecognitionSupported && (
@@ -577,7 +1230,7 @@ function App() {
                         ? 'bg-red-500 text-white hover:bg-red-600'
                         : 'text-[#003366] hover:bg-gray-100'
                     }`}
-                    title={isListening ? 'Dinlemeyi durdur' : 'Sesli mesaj'}
+                    title={isListening ? t('input.stopListening') : t('input.voiceMessage')}
                   >
                     {isListening ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
                   </button>
@@ -587,7 +1240,7 @@ function App() {
                   onClick={handleSendMessage}
                   disabled={isLoading}
                   className="bg-[#003366] hover:bg-[#004080] text-white p-3 sm:p-4 rounded-xl transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center justify-center shadow-lg"
-                  title="Mesaj gönder"
+                  title={t('input.send')}
                 >
                   <Send className="w-5 h-5" />
                 </button>
@@ -596,6 +1249,47 @@ function App() {
           )}
         </div>
       </div>
+
+      {showCamera && (
+        <CameraCapture
+          onCapture={(files) => {
+            setShowCamera(false);
+            addAttachments(files);
+          }}
+          onClose={() => setShowCamera(false)}
+        />
+      )}
+
+      {showVoiceSettings && (
+        <VoiceSettingsPanel
+          voices={voices}
+          settings={voiceSettings}
+          unsupportedSettings={unsupportedVoiceSettings}
+          lang={speechLang}
+          onChange={updateVoiceSettings}
+          onTest={(text) => speak(text)}
+          onClose={() => setShowVoiceSettings(false)}
+        />
+      )}
+
+      {openCitation && citedMessage?.sources && (
+        <SourceDrawer
+          sources={citedMessage.sources}
+          index={openCitation.index}
+          answer={citedMessage.message}
+          onChangeIndex={(index) => setOpenCitation({ ...openCitation, index })}
+          onClose={() => setOpenCitation(null)}
+        />
+      )}
+
+      {/* While exporting to PDF, only this is printed */}
+      {isPrinting && activeConversation && (
+        <PrintableConversation
+          conversation={activeConversation}
+          title={getConversationTitle(activeConversation, t('sidebar.untitled'))}
+          onReady={() => window.print()}
+        />
+      )}
     </div>
   );
 }
@@ -1,81 +1,151 @@
-import { ApiResponse, ChatAttachment } from './types';
+import { ApiResponse, ChatAttachment, ChatMessage, ChatMode, Workspace } from './types';
+import { getClientId } from './session';
+import { AppConfig, getConfig } from './config';
+import { ChatApiError, ChatAbortedError } from './errors';
+import { ChatProvider, ChatTurn, createChatProvider } from './providers';
+import { prepareAttachments } from './attachments';
 
-const API_URL = 'https://suxr2ydt.rpcl.host/api/v1/workspace/okulyapayzeka/chat';
-const API_KEY = import.meta.env.VITE_API_KEY;
+export { ChatApiError, ChatAbortedError, isTransientError } from './errors';
 
-export class ChatApiError extends Error {
-  constructor(message: string, public details?: any) {
-    super(message);
-    this.name = 'ChatApiError';
+let provider: { config: AppConfig; instance: ChatProvider } | null = null;
+
+// Providers may keep per-session state, so reuse one until the config changes
+const getProvider = (): ChatProvider => {
+  const config = getConfig();
+  if (!provider || provider.config !== config) {
+    provider = { config, instance: createChatProvider(config) };
   }
-}
+  return provider.instance;
+};
 
-export const sendChatMessage = async (
-  message: string, 
-  mode: 'query' | 'chat' = 'chat',
-  sessionId: string = 'user-session-1',
-  attachments?: ChatAttachment[],
-  reset: boolean = false
-): Promise<ApiResponse> => {
-  try {
-    const requestBody: any = {
-      message,
-      mode,
-      sessionId,
-      reset
-    };
-
-    // Only add attachments if they exist and have content
-    if (attachments && attachments.length > 0) {
-      requestBody.attachments = attachments;
-    }
+const toChatApiError = (error: unknown): ChatApiError => {
+  if (error instanceof ChatApiError) {
+    return error;
+  }
 
-    const response = await fetch(API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${API_KEY}`,
-        'accept': 'application/json'
-      },
-      body: JSON.stringify(requestBody)
-    });
-
-    if (!response.ok) {
-      let errorMessage = `API yanıt hatası: ${response.status} ${response.statusText}`;
-      
-      try {
-        const errorData = await response.json();
-        if (response.status === 403) {
-          errorMessage = 'Geçersiz API anahtarı. Lütfen API anahtarınızı kontrol edin.';
-        } else if (errorData.message) {
-          errorMessage = errorData.message;
-        } else if (errorData.error) {
-          errorMessage = errorData.error;
-        }
-      } catch (parseError) {
-        // If we can't parse the error response, use the default message
-      }
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new ChatAbortedError(error);
+  }
 
-      throw new ChatApiError(errorMessage, { status: response.status });
-    }
+  // Handle network errors; browsers word these differently ("Failed to fetch",
+  // "Load failed"), but fetch always rejects with a TypeError
+  if (error instanceof TypeError) {
+    return new ChatApiError('network', 'Network request failed', { details: error });
+  }
 
-    const data = await response.json();
-    
-    if (data.error && data.error !== 'null' && data.error !== null) {
-      throw new ChatApiError(data.error, data);
-    }
+  return new ChatApiError('unknown', 'Unexpected error', { details: error });
+};
+
+/**
+ * Runs a request with the configured idle timeout. The timer restarts every
+ * time `keepAlive` is called, so a long answer that keeps streaming is never
+ * cut off, while a backend that stops responding is.
+ */
+const withTimeout = async <T>(
+  signal: AbortSignal | undefined,
+  run: (signal: AbortSignal, keepAlive: () => void) => Promise<T>
+): Promise<T> => {
+  const controller = new AbortController();
+  const { requestTimeoutMs } = getConfig();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const keepAlive = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, requestTimeoutMs);
+  };
+
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', onAbort);
+  keepAlive();
 
-    return data;
+  try {
+    return await run(controller.signal, keepAlive);
   } catch (error) {
-    if (error instanceof ChatApiError) {
-      throw error;
-    }
-    
-    // Handle network errors
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      throw new ChatApiError('Ağ bağlantı hatası. İnternet bağlantınızı kontrol edin.', error);
+    if (timedOut) {
+      throw new ChatApiError('timeout', 'Request timed out', { details: error });
     }
-    
-    throw new ChatApiError('Beklenmeyen bir hata oluştu', error);
+    throw toChatApiError(error);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
   }
-};
\ No newline at end of file
+};
+
+export const sendChatMessage = async (
+  message: string,
+  mode: ChatMode = getConfig().defaultMode,
+  sessionId: string = getClientId(),
+  attachments?: ChatAttachment[],
+  reset: boolean = false,
+  signal?: AbortSignal,
+  workspace: string = getConfig().workspaceSlug
+): Promise<ApiResponse> =>
+  withTimeout(signal, (requestSignal) =>
+    getProvider().send({ ...prepareAttachments(message, attachments), mode, sessionId, workspace, reset, signal: requestSignal })
+  );
+
+/**
+ * Streams a chat reply from the configured provider. Every text chunk is
+ * passed to `onChunk` as it arrives; the resolved value is the whole reply
+ * with its sources. Aborting `signal` rejects with a ChatAbortedError.
+ */
+export const streamChatMessage = async (
+  message: string,
+  mode: ChatMode = getConfig().defaultMode,
+  sessionId: string = getClientId(),
+  attachments?: ChatAttachment[],
+  onChunk?: (chunk: ApiResponse) => void,
+  signal?: AbortSignal,
+  workspace: string = getConfig().workspaceSlug
+): Promise<ApiResponse> =>
+  withTimeout(signal, (requestSignal, keepAlive) =>
+    getProvider().stream(
+      { ...prepareAttachments(message, attachments), mode, sessionId, workspace, signal: requestSignal },
+      (chunk) => {
+        keepAlive();
+        onChunk?.(chunk);
+      }
+    )
+  );
+
+/**
+ * Starts `sessionId` off with an earlier transcript, so chat mode carries on
+ * from it. Used when the user moves to another branch of a conversation and
+ * the server's memory of the old one no longer applies. Only chat-mode
+ * exchanges that got an answer are replayed, as only those were remembered.
+ */
+export const replayChatSession = (sessionId: string, transcript: ChatMessage[]) => {
+  const turns: ChatTurn[] = [];
+
+  transcript.forEach((message, index) => {
+    const reply = transcript[index + 1];
+    if (message.type !== 'user' || (message.mode ?? getConfig().defaultMode) !== 'chat') return;
+    if (reply?.type !== 'bot' || !reply.message) return;
+
+    turns.push(
+      { role: 'user', content: prepareAttachments(message.message, message.attachments).message },
+      { role: 'assistant', content: reply.message }
+    );
+  });
+
+  getProvider().replay(sessionId, turns);
+};
+
+/**
+ * The workspaces a conversation can talk to: the list from the config if it
+ * has one, otherwise whatever the backend reports. Empty when neither knows
+ * of any, e.g. for providers without workspaces.
+ */
+export const listWorkspaces = async (signal?: AbortSignal): Promise<Workspace[]> => {
+  const { workspaces } = getConfig();
+  if (workspaces.length > 0) return workspaces;
+
+  const { listWorkspaces: fetchWorkspaces } = getProvider();
+  if (!fetchWorkspaces) return [];
+  return withTimeout(signal, fetchWorkspaces);
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { AttachmentError, fitRequestLimit } from './attachments';
+import { createResponseError } from './errors';
+import { getConfig } from './config';
+import { ChatAttachment } from './types';
+
+const image = (name: string, bytes: number): ChatAttachment => ({
+  name,
+  mime: 'image/jpeg',
+  contentString: `data:image/jpeg;base64,${'A'.repeat(bytes)}`
+});
+
+describe('fitRequestLimit', () => {
+  const limit = getConfig().maxRequestBytes;
+
+  it('keeps attachments that fit in one request', () => {
+    const added = [image('a.jpg', 1000), image('b.jpg', 1000)];
+
+    expect(fitRequestLimit([], added)).toEqual({ accepted: added, errors: [] });
+  });
+
+  it('refuses the attachments that would push the request over the limit', () => {
+    const existing = [image('a.jpg', limit * 0.4)];
+    const fits = image('c.jpg', 1000);
+    const { accepted, errors } = fitRequestLimit(existing, [image('b.jpg', limit * 0.7), fits]);
+
+    expect(accepted).toEqual([fits]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(AttachmentError);
+    expect(errors[0].code).toBe('request-too-large');
+    expect(errors[0].params.name).toBe('b.jpg');
+  });
+});
+
+describe('createResponseError', () => {
+  it('reports 413 as too-large', async () => {
+    const error = await createResponseError(new Response(JSON.stringify({ error: 'İstek çok büyük.' }), { status: 413 }));
+
+    expect(error.code).toBe('too-large');
+    expect(error.message).toBe('İstek çok büyük.');
+  });
+});
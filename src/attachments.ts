@@ -0,0 +1,273 @@
+import { ChatAttachment } from './types';
+import { getConfig } from './config';
+import type { CompressImageRequest, CompressImageResponse } from './workers/imageCompression.worker';
+
+export const MAX_ATTACHMENTS = 5;
+
+// Photos are downscaled before sending, so the raw limit can be generous;
+// what is sent is checked against the smaller one.
+const MAX_IMAGE_FILE_BYTES = 25 * 1024 * 1024;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+// Big enough to read a photographed worksheet
+const IMAGE_MAX_DIMENSION = 1600;
+const IMAGE_QUALITY = 0.8;
+
+// Re-encoding would flatten animations and rasterise vectors
+const UNCOMPRESSED_IMAGE_TYPES = ['image/gif', 'image/svg+xml'];
+
+// Roughly 5k words; longer texts crowd out the question in the model's context
+const MAX_DOCUMENT_CHARS = 20000;
+
+// Left of the request limit for the question itself and any replayed history
+const REQUEST_HEADROOM_BYTES = 256 * 1024;
+
+type DocumentKind = 'pdf' | 'docx' | 'text';
+
+const DOCUMENT_TYPES: Record<string, DocumentKind> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/plain': 'text',
+  'text/markdown': 'text'
+};
+
+const DOCUMENT_EXTENSIONS: Record<string, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  markdown: 'text/markdown'
+};
+
+/** Value for the file input's `accept` attribute. */
+export const ACCEPTED_FILE_TYPES = ['image/*', ...Object.keys(DOCUMENT_TYPES), '.pdf', '.docx', '.txt', '.md'].join(',');
+
+/** Why a file can't be attached. */
+export type AttachmentErrorCode =
+  | 'image-too-large'
+  | 'compressed-image-too-large'
+  | 'unsupported-type'
+  | 'document-too-large'
+  | 'unreadable'
+  | 'no-text'
+  | 'request-too-large';
+
+/** A file that can't be attached; the UI words it from `code` and `params`. */
+export class AttachmentError extends Error {
+  constructor(public code: AttachmentErrorCode, public params: Record<string, string> = {}) {
+    super(`Attachment rejected: ${code}`);
+    this.name = 'AttachmentError';
+  }
+}
+
+export const isImageAttachment = (attachment: ChatAttachment) => attachment.mime.startsWith('image/');
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Browsers often leave `type` empty for .md and sometimes for .docx
+const documentMime = (file: File): string | undefined => {
+  if (file.type in DOCUMENT_TYPES) return file.type;
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return DOCUMENT_EXTENSIONS[extension];
+};
+
+let compressionWorker: Worker | null = null;
+let nextCompressionId = 0;
+
+const getCompressionWorker = () => {
+  if (!compressionWorker) {
+    compressionWorker = new Worker(new URL('./workers/imageCompression.worker.ts', import.meta.url), { type: 'module' });
+  }
+  return compressionWorker;
+};
+
+const canCompressImages = () => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+/**
+ * Downscales and re-encodes a photo as JPEG in a worker so the page stays
+ * responsive. Falls back to the original file where that isn't supported
+ * or doesn't make it smaller.
+ */
+const compressImage = (file: File): Promise<Blob> => {
+  if (!canCompressImages() || UNCOMPRESSED_IMAGE_TYPES.includes(file.type)) {
+    return Promise.resolve(file);
+  }
+
+  const worker = getCompressionWorker();
+  const id = nextCompressionId++;
+
+  return new Promise(resolve => {
+    const handleMessage = (event: MessageEvent<CompressImageResponse>) => {
+      if (event.data.id !== id) return;
+      worker.removeEventListener('message', handleMessage);
+
+      if ('error' in event.data) {
+        console.error('Resim sıkıştırma hatası:', event.data.error);
+        resolve(file);
+      } else {
+        resolve(event.data.blob.size < file.size ? event.data.blob : file);
+      }
+    };
+
+    worker.addEventListener('message', handleMessage);
+    worker.postMessage({
+      id,
+      file,
+      maxDimension: IMAGE_MAX_DIMENSION,
+      quality: IMAGE_QUALITY
+    } satisfies CompressImageRequest);
+  });
+};
+
+const readAsDataUrl = (file: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const extractPdfText = async (file: File) => {
+  const [pdfjs, { default: workerUrl }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      pages.push(content.items.map(item => ('str' in item ? item.str : '')).join(' '));
+    }
+    return pages.join('\n\n');
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+const extractDocxText = async (file: File) => {
+  const mammoth = await import('mammoth');
+  const result = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+  return result.value;
+};
+
+const extractText = (file: File, kind: DocumentKind) => {
+  switch (kind) {
+    case 'pdf':
+      return extractPdfText(file);
+    case 'docx':
+      return extractDocxText(file);
+    case 'text':
+      return file.text();
+  }
+};
+
+/**
+ * Turns a picked file into an attachment. Images are kept as data URLs for
+ * the API; documents are read here and only their text is kept, because the
+ * workspace API accepts images only.
+ */
+export const readAttachment = async (file: File): Promise<ChatAttachment> => {
+  if (file.type.startsWith('image/')) {
+    if (file.size > MAX_IMAGE_FILE_BYTES) {
+      throw new AttachmentError('image-too-large', { limit: formatFileSize(MAX_IMAGE_FILE_BYTES) });
+    }
+
+    const image = await compressImage(file);
+    if (image.size > MAX_IMAGE_BYTES) {
+      throw new AttachmentError('compressed-image-too-large', { limit: formatFileSize(MAX_IMAGE_BYTES) });
+    }
+    return {
+      name: file.name,
+      mime: image.type || file.type,
+      size: image.size,
+      contentString: await readAsDataUrl(image)
+    };
+  }
+
+  const mime = documentMime(file);
+  if (!mime) {
+    throw new AttachmentError('unsupported-type');
+  }
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    throw new AttachmentError('document-too-large', { limit: formatFileSize(MAX_DOCUMENT_BYTES) });
+  }
+
+  let text: string;
+  try {
+    text = (await extractText(file, DOCUMENT_TYPES[mime])).trim();
+  } catch (error) {
+    console.error('Belge okuma hatası:', error);
+    throw new AttachmentError('unreadable');
+  }
+  if (!text) {
+    // Typically a scanned PDF with no text layer
+    throw new AttachmentError('no-text');
+  }
+  if (text.length > MAX_DOCUMENT_CHARS) {
+    text = `${text.slice(0, MAX_DOCUMENT_CHARS)}\n\n[Belgenin geri kalanı uzunluk sınırı nedeniyle kesildi.]`;
+  }
+
+  return {
+    name: file.name,
+    mime,
+    size: file.size,
+    contentString: '',
+    text
+  };
+};
+
+/**
+ * Splits attachments into what the provider can send as files (images) and
+ * document text, which is put in front of the question.
+ */
+export const prepareAttachments = (message: string, attachments?: ChatAttachment[]) => {
+  const documents = (attachments ?? []).filter(a => a.text);
+  const images = (attachments ?? []).filter(a => !a.text && a.contentString);
+
+  const prompt = documents.length > 0
+    ? [
+        ...documents.map(doc => `--- Ekli belge: ${doc.name} ---\n${doc.text}\n--- Belge sonu ---`),
+        message
+      ].join('\n\n')
+    : message;
+
+  return { message: prompt, attachments: images.length > 0 ? images : undefined };
+};
+
+// Size of the attachments in the request body: images as base64 data URLs,
+// documents as the text that goes into the message
+const requestBytes = (attachments: ChatAttachment[]) =>
+  new Blob([JSON.stringify(prepareAttachments('', attachments))]).size;
+
+/**
+ * Keeps the newly read attachments that still fit in one request next to
+ * `existing`, in order, and returns an error for each one that doesn't. Five
+ * full-size photos would be refused by the proxy (413) once base64-encoded.
+ */
+export const fitRequestLimit = (existing: ChatAttachment[], added: ChatAttachment[]) => {
+  const limit = getConfig().maxRequestBytes - REQUEST_HEADROOM_BYTES;
+  const accepted: ChatAttachment[] = [];
+  const errors: AttachmentError[] = [];
+
+  added.forEach(attachment => {
+    if (requestBytes([...existing, ...accepted, attachment]) > limit) {
+      errors.push(new AttachmentError('request-too-large', {
+        name: attachment.name,
+        limit: formatFileSize(getConfig().maxRequestBytes)
+      }));
+    } else {
+      accepted.push(attachment);
+    }
+  });
+
+  return { accepted, errors };
+};
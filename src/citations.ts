@@ -0,0 +1,56 @@
+export interface PassageRange {
+  start: number;
+  end: number;
+}
+
+// Words this short are mostly suffix-less particles ("ve", "bir", "the") and
+// would match almost any passage.
+const MIN_WORD_LENGTH = 4;
+
+export const toWords = (text: string) =>
+  text
+    .toLocaleLowerCase('tr-TR')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length >= MIN_WORD_LENGTH);
+
+const splitSentences = (text: string): PassageRange[] => {
+  const ranges: PassageRange[] = [];
+  const pattern = /[^.!?\n]+[.!?]*/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[0].trim()) {
+      ranges.push({ start: match.index, end: match.index + match[0].length });
+    }
+  }
+
+  return ranges;
+};
+
+/**
+ * Finds the sentences of a source chunk that the answer most likely drew on,
+ * by how many of each sentence's content words also appear in the answer.
+ * Returns character ranges into `chunk`; empty when nothing overlaps.
+ */
+export const findMatchingPassages = (answer: string, chunk: string): PassageRange[] => {
+  const answerWords = new Set(toWords(answer));
+  if (answerWords.size === 0) return [];
+
+  const scored = splitSentences(chunk).map(range => {
+    const words = toWords(chunk.slice(range.start, range.end));
+    const hits = words.filter(word => answerWords.has(word)).length;
+    return { range, hits, score: words.length > 0 ? hits / words.length : 0 };
+  });
+
+  const matches = scored.filter(s => s.hits >= 2 && s.score >= 0.4);
+  if (matches.length > 0) {
+    return matches.map(s => s.range);
+  }
+
+  // Nothing clearly matches; still point at the closest sentence if any word overlaps
+  const best = scored.reduce<(typeof scored)[number] | null>(
+    (top, s) => (s.hits > 0 && (!top || s.score > top.score) ? s : top),
+    null
+  );
+  return best ? [best.range] : [];
+};
@@ -0,0 +1,38 @@
+import { FileText } from 'lucide-react';
+import { ChatAttachment } from '../types';
+import { formatFileSize, isImageAttachment } from '../attachments';
+
+interface AttachmentPreviewProps {
+  attachment: ChatAttachment;
+}
+
+export function AttachmentPreview({ attachment }: AttachmentPreviewProps) {
+  if (isImageAttachment(attachment)) {
+    return (
+      <img
+        src={attachment.contentString}
+        alt={attachment.name}
+        className="max-w-full rounded-lg"
+      />
+    );
+  }
+
+  const extension = attachment.name.split('.').pop()?.toUpperCase();
+
+  return (
+    <div
+      className="flex items-center gap-3 p-2 pe-3 max-w-xs bg-white/10 border border-white/30 rounded-lg"
+      title={attachment.name}
+    >
+      <div className="flex items-center justify-center w-9 h-9 rounded bg-white text-[#003366] flex-shrink-0">
+        <FileText className="w-5 h-5" />
+      </div>
+      <div className="min-w-0">
+        <div className="text-sm font-medium truncate">{attachment.name}</div>
+        <div className="text-xs opacity-75">
+          {[extension, attachment.size !== undefined && formatFileSize(attachment.size)].filter(Boolean).join(' · ')}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { ChatMessage } from '../types';
+import { useLanguage } from '../hooks/useLanguage';
+
+interface BranchSwitcherProps {
+  /** The message on screen and its alternatives, oldest first. */
+  versions: ChatMessage[];
+  current: ChatMessage;
+  disabled: boolean;
+  onChange: (offset: -1 | 1) => void;
+}
+
+/** Flips between the versions of a message: its edits, or its regenerated answers. */
+export function BranchSwitcher({ versions, current, disabled, onChange }: BranchSwitcherProps) {
+  const { t } = useLanguage();
+  if (versions.length < 2) return null;
+
+  const index = versions.indexOf(current);
+  const total = versions.length;
+  const buttonClass = 'p-0.5 rounded hover:bg-gray-200 disabled:opacity-40 disabled:hover:bg-transparent';
+
+  return (
+    <span className="flex items-center gap-0.5">
+      <button onClick={() => onChange(-1)} disabled={disabled || index === 0} className={buttonClass} title={t('message.previousVersion')}>
+        <ChevronLeft className="w-3.5 h-3.5 rtl:rotate-180" />
+      </button>
+      <span className="tabular-nums">{t('message.versionPosition', { index: index + 1, total })}</span>
+      <button onClick={() => onChange(1)} disabled={disabled || index === total - 1} className={buttonClass} title={t('message.nextVersion')}>
+        <ChevronRight className="w-3.5 h-3.5 rtl:rotate-180" />
+      </button>
+    </span>
+  );
+}
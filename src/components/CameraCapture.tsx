@@ -0,0 +1,392 @@
+import { useEffect, useMemo, useRef, useState, PointerEvent } from 'react';
+import { Camera, Check, Loader2, RotateCcw, RotateCw, ScanText, SwitchCamera, X } from 'lucide-react';
+import { useLanguage } from '../hooks/useLanguage';
+import { MessageKey } from '../i18n';
+import { recognizeText } from '../ocr';
+
+type Stage = 'camera' | 'edit' | 'ocr';
+type Rotation = 0 | 90 | 180 | 270;
+type DragHandle = 'move' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+/** Crop area as fractions of the (rotated) photo, so it survives resizing. */
+interface CropArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const FULL_CROP: CropArea = { x: 0, y: 0, width: 1, height: 1 };
+const MIN_CROP_SIZE = 0.1;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const cameraErrorMessage = (error: unknown): MessageKey => {
+  if (error instanceof DOMException) {
+    if (error.name === 'NotAllowedError') return 'camera.error.not-allowed';
+    if (error.name === 'NotFoundError' || error.name === 'OverconstrainedError') return 'camera.error.not-found';
+    if (error.name === 'NotReadableError') return 'camera.error.busy';
+  }
+  return 'camera.error.unknown';
+};
+
+const rotateCanvas = (source: HTMLCanvasElement, rotation: Rotation) => {
+  const sideways = rotation === 90 || rotation === 270;
+  const canvas = document.createElement('canvas');
+  canvas.width = sideways ? source.height : source.width;
+  canvas.height = sideways ? source.width : source.height;
+
+  const context = canvas.getContext('2d')!;
+  context.translate(canvas.width / 2, canvas.height / 2);
+  context.rotate((rotation * Math.PI) / 180);
+  context.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+};
+
+const cropCanvas = (source: HTMLCanvasElement, crop: CropArea) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(source.width * crop.width);
+  canvas.height = Math.round(source.height * crop.height);
+  canvas
+    .getContext('2d')!
+    .drawImage(source, -Math.round(source.width * crop.x), -Math.round(source.height * crop.y));
+  return canvas;
+};
+
+const toJpegFile = (canvas: HTMLCanvasElement, name: string) =>
+  new Promise<File>((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(new File([blob], name, { type: 'image/jpeg' })) : reject(new Error('toBlob failed'))),
+      'image/jpeg',
+      0.92
+    );
+  });
+
+const resizeCrop = (start: CropArea, handle: DragHandle, dx: number, dy: number): CropArea => {
+  if (handle === 'move') {
+    return {
+      ...start,
+      x: clamp(start.x + dx, 0, 1 - start.width),
+      y: clamp(start.y + dy, 0, 1 - start.height)
+    };
+  }
+
+  let left = start.x;
+  let top = start.y;
+  let right = start.x + start.width;
+  let bottom = start.y + start.height;
+
+  if (handle.endsWith('left')) left = clamp(left + dx, 0, right - MIN_CROP_SIZE);
+  if (handle.endsWith('right')) right = clamp(right + dx, left + MIN_CROP_SIZE, 1);
+  if (handle.startsWith('top')) top = clamp(top + dy, 0, bottom - MIN_CROP_SIZE);
+  if (handle.startsWith('bottom')) bottom = clamp(bottom + dy, top + MIN_CROP_SIZE, 1);
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+const HANDLE_POSITIONS: Record<Exclude<DragHandle, 'move'>, string> = {
+  'top-left': '-top-2 -left-2 cursor-nwse-resize',
+  'top-right': '-top-2 -right-2 cursor-nesw-resize',
+  'bottom-left': '-bottom-2 -left-2 cursor-nesw-resize',
+  'bottom-right': '-bottom-2 -right-2 cursor-nwse-resize'
+};
+
+interface CameraCaptureProps {
+  /** Receives the cropped photo, followed by the recognised text as a .txt file when OCR was used. */
+  onCapture: (files: File[]) => void;
+  onClose: () => void;
+}
+
+export function CameraCapture({ onCapture, onClose }: CameraCaptureProps) {
+  const { t } = useLanguage();
+  const [stage, setStage] = useState<Stage>('camera');
+  const [facingMode, setFacingMode] = useState<'environment' | 'user'>('environment');
+  const [cameraError, setCameraError] = useState<MessageKey | null>(null);
+  const [photo, setPhoto] = useState<HTMLCanvasElement | null>(null);
+  const [rotation, setRotation] = useState<Rotation>(0);
+  const [crop, setCrop] = useState<CropArea>(FULL_CROP);
+  const [useOcr, setUseOcr] = useState(false);
+  const [photoFile, setPhotoFile] = useState<File | null>(null);
+  const [ocrProgress, setOcrProgress] = useState<number | null>(null);
+  const [ocrText, setOcrText] = useState('');
+  const [ocrError, setOcrError] = useState<MessageKey | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const cropContainerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ handle: DragHandle; startX: number; startY: number; startCrop: CropArea } | null>(null);
+
+  useEffect(() => {
+    if (stage !== 'camera') return;
+
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setCameraError(null);
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode, width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then(mediaStream => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+        }
+      })
+      .catch(error => {
+        console.error('Kamera hatası:', error);
+        if (!cancelled) setCameraError(cameraErrorMessage(error));
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [stage, facingMode]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const rotated = useMemo(() => (photo ? rotateCanvas(photo, rotation) : null), [photo, rotation]);
+  const previewUrl = useMemo(() => rotated?.toDataURL('image/jpeg', 0.85) ?? '', [rotated]);
+
+  const handleCapture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')!.drawImage(video, 0, 0);
+
+    setPhoto(canvas);
+    setRotation(0);
+    setCrop(FULL_CROP);
+    setStage('edit');
+  };
+
+  const handleRotate = (direction: 1 | -1) => {
+    setRotation(prev => ((prev + direction * 90 + 360) % 360) as Rotation);
+    // The old crop area would point at a different part of the photo
+    setCrop(FULL_CROP);
+  };
+
+  const handleRetake = () => {
+    setPhoto(null);
+    setPhotoFile(null);
+    setOcrText('');
+    setOcrError(null);
+    setStage('camera');
+  };
+
+  const handlePointerDown = (handle: DragHandle) => (e: PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { handle, startX: e.clientX, startY: e.clientY, startCrop: crop };
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const container = cropContainerRef.current;
+    if (!drag || !container) return;
+
+    const rect = container.getBoundingClientRect();
+    setCrop(resizeCrop(
+      drag.startCrop,
+      drag.handle,
+      (e.clientX - drag.startX) / rect.width,
+      (e.clientY - drag.startY) / rect.height
+    ));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleConfirm = async () => {
+    if (!rotated) return;
+
+    const file = await toJpegFile(cropCanvas(rotated, crop), `kamera-${Date.now()}.jpg`);
+    if (!useOcr) {
+      onCapture([file]);
+      return;
+    }
+
+    setPhotoFile(file);
+    setStage('ocr');
+    setOcrError(null);
+    setOcrProgress(0);
+    try {
+      setOcrText(await recognizeText(file, setOcrProgress));
+    } catch (error) {
+      console.error('OCR hatası:', error);
+      setOcrError('camera.ocrFailed');
+    } finally {
+      setOcrProgress(null);
+    }
+  };
+
+  const handleSendWithText = () => {
+    if (!photoFile) return;
+    const text = ocrText.trim();
+    onCapture(text
+      ? [photoFile, new File([text], photoFile.name.replace(/\.jpg$/, '-metin.txt'), { type: 'text/plain' })]
+      : [photoFile]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/70 flex items-center justify-center sm:p-4">
+      <div className="bg-white w-full h-full sm:h-auto sm:max-h-full sm:max-w-2xl sm:rounded-2xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center gap-2 font-medium text-[#003366]">
+            <Camera className="w-5 h-5" />
+            {stage === 'camera' && t('camera.takePhoto')}
+            {stage === 'edit' && t('camera.cropAndRotate')}
+            {stage === 'ocr' && t('camera.recognizedText')}
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-600 hover:bg-gray-100 rounded" title={t('common.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto bg-gray-900 flex items-center justify-center">
+          {stage === 'camera' && (cameraError ? (
+            <p className="p-6 text-center text-white">{t(cameraError)}</p>
+          ) : (
+            <video ref={videoRef} autoPlay playsInline muted className="max-w-full max-h-[70vh]" />
+          ))}
+
+          {stage === 'edit' && previewUrl && (
+            <div
+              ref={cropContainerRef}
+              className="relative select-none touch-none"
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            >
+              <img src={previewUrl} alt={t('camera.photoAlt')} className="block max-w-full max-h-[65vh]" draggable={false} />
+              <div
+                className="absolute border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.5)] cursor-move"
+                style={{
+                  left: `${crop.x * 100}%`,
+                  top: `${crop.y * 100}%`,
+                  width: `${crop.width * 100}%`,
+                  height: `${crop.height * 100}%`
+                }}
+                onPointerDown={handlePointerDown('move')}
+              >
+                {(Object.keys(HANDLE_POSITIONS) as (keyof typeof HANDLE_POSITIONS)[]).map(handle => (
+                  <div
+                    key={handle}
+                    className={`absolute w-4 h-4 bg-white border-2 border-[#003366] rounded-full ${HANDLE_POSITIONS[handle]}`}
+                    onPointerDown={handlePointerDown(handle)}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
+          {stage === 'ocr' && (
+            <div className="w-full h-full bg-white p-4 flex flex-col gap-3">
+              {ocrProgress !== null ? (
+                <div className="flex-1 flex flex-col items-center justify-center gap-3 text-gray-600 py-12">
+                  <Loader2 className="w-8 h-8 animate-spin text-[#003366]" />
+                  <span>{t('camera.recognizing', { percent: Math.round(ocrProgress * 100) })}</span>
+                </div>
+              ) : (
+                <>
+                  {ocrError && <p className="text-sm text-red-700">{t(ocrError)}</p>}
+                  <textarea
+                    value={ocrText}
+                    onChange={(e) => setOcrText(e.target.value)}
+                    rows={12}
+                    className="w-full flex-1 p-3 bg-gray-50 border border-gray-200 rounded-xl text-sm text-gray-800 focus:outline-none focus:border-[#003366] focus:ring-1 focus:ring-[#003366]"
+                    placeholder={t('camera.ocrPlaceholder')}
+                  />
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex items-center justify-between gap-3 flex-wrap">
+          {stage === 'camera' && (
+            <>
+              <button
+                onClick={() => setFacingMode(prev => (prev === 'environment' ? 'user' : 'environment'))}
+                className="p-3 text-[#003366] hover:bg-gray-100 rounded-xl transition-colors"
+                title={t('camera.switchCamera')}
+              >
+                <SwitchCamera className="w-5 h-5" />
+              </button>
+              <button
+                onClick={handleCapture}
+                disabled={!!cameraError}
+                className="flex items-center gap-2 px-6 py-3 bg-[#003366] text-white rounded-xl hover:bg-[#004080] transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                <Camera className="w-5 h-5" />
+                {t('camera.capture')}
+              </button>
+              <span className="w-11" />
+            </>
+          )}
+
+          {stage === 'edit' && (
+            <>
+              <div className="flex items-center gap-1">
+                <button onClick={() => handleRotate(-1)} className="p-2 text-[#003366] hover:bg-gray-100 rounded-lg" title={t('camera.rotateLeft')}>
+                  <RotateCcw className="w-5 h-5" />
+                </button>
+                <button onClick={() => handleRotate(1)} className="p-2 text-[#003366] hover:bg-gray-100 rounded-lg" title={t('camera.rotateRight')}>
+                  <RotateCw className="w-5 h-5" />
+                </button>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input type="checkbox" checked={useOcr} onChange={(e) => setUseOcr(e.target.checked)} />
+                <ScanText className="w-4 h-4 text-[#003366]" />
+                {t('camera.recognizeText')}
+              </label>
+              <div className="flex items-center gap-2">
+                <button onClick={handleRetake} className="px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg">
+                  {t('camera.retake')}
+                </button>
+                <button
+                  onClick={handleConfirm}
+                  className="flex items-center gap-2 px-4 py-2 bg-[#003366] text-white rounded-lg hover:bg-[#004080] transition-colors"
+                >
+                  <Check className="w-4 h-4" />
+                  {useOcr ? t('camera.continue') : t('camera.add')}
+                </button>
+              </div>
+            </>
+          )}
+
+          {stage === 'ocr' && (
+            <>
+              <button
+                onClick={handleRetake}
+                disabled={ocrProgress !== null}
+                className="px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg disabled:opacity-50"
+              >
+                {t('camera.retake')}
+              </button>
+              <button
+                onClick={handleSendWithText}
+                disabled={ocrProgress !== null}
+                className="flex items-center gap-2 px-4 py-2 bg-[#003366] text-white rounded-lg hover:bg-[#004080] transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                <Check className="w-4 h-4" />
+                {ocrText.trim() ? t('camera.addPhotoAndText') : t('camera.addPhoto')}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { AlertCircle, KeyRound, Lock, Clock, ServerCrash, WifiOff, FileWarning, Hourglass, Paperclip, RotateCcw, RefreshCw } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { ChatApiErrorCode, ChatErrorInfo } from '../types';
+import { Translate, useLanguage } from '../hooks/useLanguage';
+
+type RecoveryAction = 'retry' | 'reload' | 'none';
+
+interface ErrorDescription {
+  icon: LucideIcon;
+  action: RecoveryAction;
+}
+
+const ERROR_DESCRIPTIONS: Record<ChatApiErrorCode, ErrorDescription> = {
+  auth: { icon: KeyRound, action: 'reload' },
+  forbidden: { icon: Lock, action: 'reload' },
+  'rate-limited': { icon: Clock, action: 'retry' },
+  server: { icon: ServerCrash, action: 'retry' },
+  network: { icon: WifiOff, action: 'retry' },
+  aborted: { icon: AlertCircle, action: 'retry' },
+  'invalid-response': { icon: FileWarning, action: 'retry' },
+  timeout: { icon: Hourglass, action: 'retry' },
+  // The same attachments would be refused again
+  'too-large': { icon: Paperclip, action: 'none' },
+  unknown: { icon: AlertCircle, action: 'retry' }
+};
+
+interface ChatErrorNoticeProps {
+  error: ChatErrorInfo;
+  disabled: boolean;
+  onRetry: () => void;
+}
+
+// A few errors read better with the details the server sent along
+const describe = (error: ChatErrorInfo, t: Translate) => {
+  if (error.code === 'rate-limited' && error.retryAfterSeconds) {
+    return t('chatError.rate-limited.descriptionWithDelay', { seconds: error.retryAfterSeconds });
+  }
+  if (error.code === 'unknown' && error.status) {
+    return t('chatError.unknown.descriptionWithStatus', { status: error.status });
+  }
+  return t(`chatError.${error.code}.description`);
+};
+
+export function ChatErrorNotice({ error, disabled, onRetry }: ChatErrorNoticeProps) {
+  const { t } = useLanguage();
+  const code = error.code in ERROR_DESCRIPTIONS ? error.code : 'unknown';
+  const { icon: Icon, action } = ERROR_DESCRIPTIONS[code];
+
+  return (
+    <div className="mt-2 p-3 bg-red-50 border border-red-200 rounded-xl text-red-800 flex items-start gap-3">
+      <Icon className="w-5 h-5 flex-shrink-0 mt-0.5" />
+      <div className="flex-1 min-w-0">
+        <div className="text-sm font-medium">{t(`chatError.${code}.title`)}</div>
+        <div className="text-xs text-red-700 mt-0.5">{describe({ ...error, code }, t)}</div>
+      </div>
+      {action === 'retry' && (
+        <button
+          onClick={onRetry}
+          disabled={disabled}
+          className="flex items-center gap-1 px-2 py-1 text-xs bg-white border border-red-200 rounded-lg hover:bg-red-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <RotateCcw className="w-3 h-3" />
+          {t('chatError.retry')}
+        </button>
+      )}
+      {action === 'reload' && (
+        <button
+          onClick={() => window.location.reload()}
+          className="flex items-center gap-1 px-2 py-1 text-xs bg-white border border-red-200 rounded-lg hover:bg-red-100 transition-colors"
+        >
+          <RefreshCw className="w-3 h-3" />
+          {t('chatError.reload')}
+        </button>
+      )}
+    </div>
+  );
+}
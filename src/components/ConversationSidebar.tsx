@@ -0,0 +1,185 @@
+import { useRef, useState } from 'react';
+import { MessageSquare, Plus, Pencil, Trash2, Check, X, Upload, MessageSquareWarning } from 'lucide-react';
+import { Conversation } from '../types';
+import { getConversationTitle } from '../hooks/useConversations';
+import { useLanguage } from '../hooks/useLanguage';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeId: string | null;
+  disabled: boolean;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  /** Receives a JSON export the user picked. */
+  onImport: (file: File) => void;
+  /** Downloads every rating recorded in this browser, for administrators. */
+  onExportFeedback: (format: 'csv' | 'json') => void;
+}
+
+export function ConversationSidebar({
+  conversations,
+  activeId,
+  disabled,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+  onImport,
+  onExportFeedback
+}: ConversationSidebarProps) {
+  const { t } = useLanguage();
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const titleOf = (conversation: Conversation) => getConversationTitle(conversation, t('sidebar.untitled'));
+
+  const sorted = [...conversations].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+
+  const startEditing = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(titleOf(conversation));
+  };
+
+  const commitEditing = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle);
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (conversation: Conversation) => {
+    if (window.confirm(t('sidebar.confirmDelete', { title: titleOf(conversation) }))) {
+      onDelete(conversation.id);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-gray-200 h-full flex flex-col">
+      <div className="p-4 border-b border-gray-200 bg-gray-50 rounded-t-2xl">
+        <div className="flex gap-2">
+          <button
+            onClick={onNew}
+            disabled={disabled}
+            className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium bg-[#003366] text-white rounded-lg hover:bg-[#004080] transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            <Plus className="w-4 h-4" />
+            {t('sidebar.newConversation')}
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={disabled}
+            className="p-2 text-[#003366] bg-white border border-gray-200 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title={t('sidebar.import')}
+          >
+            <Upload className="w-4 h-4" />
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              // Let the same file be picked again after a failed import
+              e.target.value = '';
+              if (file) onImport(file);
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {sorted.map(conversation => {
+          const isActive = conversation.id === activeId;
+
+          if (editingId === conversation.id) {
+            return (
+              <div key={conversation.id} className="flex items-center gap-1 p-2 rounded-lg bg-blue-50">
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitEditing();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-200 rounded focus:outline-none focus:border-[#003366]"
+                />
+                <button onClick={commitEditing} className="p-1 text-green-700 hover:bg-green-100 rounded" title={t('sidebar.save')}>
+                  <Check className="w-4 h-4" />
+                </button>
+                <button onClick={() => setEditingId(null)} className="p-1 text-gray-500 hover:bg-gray-200 rounded" title={t('sidebar.cancel')}>
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          }
+
+          return (
+            <div
+              key={conversation.id}
+              className={`group flex items-center gap-2 p-2 rounded-lg ${
+                isActive ? 'bg-blue-50 text-[#003366]' : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <button
+                onClick={() => onSelect(conversation.id)}
+                disabled={disabled && !isActive}
+                className="flex-1 min-w-0 flex items-center gap-2 text-start disabled:cursor-not-allowed"
+              >
+                <MessageSquare className="w-4 h-4 flex-shrink-0" />
+                <div className="min-w-0">
+                  <div className={`text-sm truncate ${isActive ? 'font-medium' : ''}`}>
+                    {titleOf(conversation)}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {conversation.updatedAt.toLocaleDateString()}
+                  </div>
+                </div>
+              </button>
+              <div className="flex opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                <button
+                  onClick={() => startEditing(conversation)}
+                  className="p-1 text-gray-500 hover:text-[#003366] hover:bg-gray-200 rounded"
+                  title={t('sidebar.rename')}
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => handleDelete(conversation)}
+                  disabled={disabled}
+                  className="p-1 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+                  title={t('sidebar.delete')}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="p-3 border-t border-gray-200 flex items-center gap-2 text-xs text-gray-500">
+        <MessageSquareWarning className="w-4 h-4 flex-shrink-0" />
+        <span className="flex-1 min-w-0 truncate">{t('sidebar.feedbackLog')}</span>
+        <button
+          onClick={() => onExportFeedback('csv')}
+          className="px-2 py-1 border border-gray-200 rounded hover:bg-gray-100 hover:text-[#003366]"
+          title={t('sidebar.exportFeedbackCsv')}
+        >
+          CSV
+        </button>
+        <button
+          onClick={() => onExportFeedback('json')}
+          className="px-2 py-1 border border-gray-200 rounded hover:bg-gray-100 hover:text-[#003366]"
+          title={t('sidebar.exportFeedbackJson')}
+        >
+          JSON
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useEffect, useRef, useState } from 'react';
+import { Download, FileJson, FileText, LucideIcon, Printer } from 'lucide-react';
+import { useLanguage } from '../hooks/useLanguage';
+import { ExportFormat } from '../conversationExport';
+import { MessageKey } from '../i18n';
+
+const FORMATS: { format: ExportFormat; label: MessageKey; icon: LucideIcon }[] = [
+  { format: 'markdown', label: 'export.markdown', icon: FileText },
+  { format: 'pdf', label: 'export.pdf', icon: Printer },
+  { format: 'json', label: 'export.json', icon: FileJson }
+];
+
+interface ExportMenuProps {
+  disabled: boolean;
+  onExport: (format: ExportFormat) => void;
+}
+
+export function ExportMenu({ disabled, onExport }: ExportMenuProps) {
+  const { t } = useLanguage();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    window.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        disabled={disabled}
+        className="p-2 text-[#003366] bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        title={t('export.menu')}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <Download className="w-4 h-4" />
+      </button>
+      {isOpen && (
+        <div role="menu" className="absolute end-0 top-full mt-1 z-30 w-48 py-1 bg-white border border-gray-200 rounded-lg shadow-lg">
+          {FORMATS.map(({ format, label, icon: Icon }) => (
+            <button
+              key={format}
+              role="menuitem"
+              onClick={() => {
+                setIsOpen(false);
+                onExport(format);
+              }}
+              className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-700 text-start hover:bg-gray-50"
+            >
+              <Icon className="w-4 h-4 text-[#003366]" />
+              {t(label)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
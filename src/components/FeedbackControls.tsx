@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { Send, ThumbsDown, ThumbsUp } from 'lucide-react';
+import { MessageFeedback } from '../types';
+import { useLanguage } from '../hooks/useLanguage';
+
+interface FeedbackControlsProps {
+  feedback?: MessageFeedback;
+  disabled: boolean;
+  onSubmit: (feedback: MessageFeedback) => void;
+}
+
+/**
+ * Thumbs up/down for an answer. Picking a rating records it straight away and
+ * opens an optional comment, which is sent as an update to the same rating.
+ */
+export function FeedbackControls({ feedback, disabled, onSubmit }: FeedbackControlsProps) {
+  const { t } = useLanguage();
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const handleRate = (rating: MessageFeedback['rating']) => {
+    const comment = feedback?.rating === rating ? feedback.comment : '';
+    if (feedback?.rating !== rating) onSubmit({ rating, comment });
+    setDraft(comment);
+  };
+
+  const handleComment = () => {
+    if (feedback && draft !== null && draft.trim() !== feedback.comment) {
+      onSubmit({ ...feedback, comment: draft.trim() });
+    }
+    setDraft(null);
+  };
+
+  const buttonClass = (active: boolean) =>
+    `p-1 rounded hover:bg-gray-200 disabled:opacity-40 disabled:hover:bg-transparent ${active ? 'text-[#003366]' : 'hover:text-[#003366]'}`;
+
+  return (
+    <>
+      <button
+        onClick={() => handleRate('up')}
+        disabled={disabled}
+        className={buttonClass(feedback?.rating === 'up')}
+        title={t('feedback.helpful')}
+        aria-pressed={feedback?.rating === 'up'}
+      >
+        <ThumbsUp className={`w-3.5 h-3.5 ${feedback?.rating === 'up' ? 'fill-current' : ''}`} />
+      </button>
+      <button
+        onClick={() => handleRate('down')}
+        disabled={disabled}
+        className={buttonClass(feedback?.rating === 'down')}
+        title={t('feedback.notHelpful')}
+        aria-pressed={feedback?.rating === 'down'}
+      >
+        <ThumbsDown className={`w-3.5 h-3.5 ${feedback?.rating === 'down' ? 'fill-current' : ''}`} />
+      </button>
+      {draft !== null && feedback && (
+        <span className="basis-full flex items-center gap-1 mt-1">
+          <input
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleComment();
+              if (e.key === 'Escape') setDraft(null);
+            }}
+            placeholder={feedback.rating === 'down' ? t('feedback.whatWasWrong') : t('feedback.commentPlaceholder')}
+            maxLength={1000}
+            className="flex-1 min-w-0 px-2 py-1 text-xs bg-white border border-gray-200 rounded-lg text-gray-800 focus:outline-none focus:border-[#003366]"
+          />
+          <button
+            onClick={handleComment}
+            className="p-1.5 text-white bg-[#003366] rounded-lg hover:bg-[#004080]"
+            title={t('feedback.sendComment')}
+          >
+            <Send className="w-3 h-3 rtl:-scale-x-100" />
+          </button>
+        </span>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,21 @@
+import { useLanguage } from '../hooks/useLanguage';
+import { isLanguage, LANGUAGES } from '../languages';
+
+/** Picks the UI language; each option is labelled in its own language. */
+export function LanguageSwitcher() {
+  const { language, setLanguage, t } = useLanguage();
+
+  return (
+    <select
+      value={language}
+      onChange={(e) => isLanguage(e.target.value) && setLanguage(e.target.value)}
+      className="px-2 py-2 text-sm bg-white border border-gray-200 rounded-lg text-gray-700 focus:outline-none focus:border-[#003366]"
+      title={t('controls.language')}
+      aria-label={t('controls.language')}
+    >
+      {Object.entries(LANGUAGES).map(([code, info]) => (
+        <option key={code} value={code} lang={code}>{info.label}</option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,116 @@
+import { useRef, useState, ComponentPropsWithoutRef } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import { Check, Copy } from 'lucide-react';
+import { useLanguage } from '../hooks/useLanguage';
+import { rehypeSpokenHighlight, SpokenHighlight } from '../speech/spokenHighlight';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github.css';
+
+// The default schema drops every class name except `language-*` on code, but
+// remark-math marks formulas with `math-inline`/`math-display` and
+// rehype-katex needs those to find them. KaTeX and highlight.js run after
+// sanitizing, so their own markup is not filtered.
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [
+      ...(defaultSchema.attributes?.code ?? []),
+      ['className', /^language-./, 'math-inline', 'math-display']
+    ]
+  }
+};
+
+/**
+ * Closes constructs that are still open while a reply is streaming in, so a
+ * half-received code block or display formula doesn't swallow the text after
+ * it or flash as raw markup.
+ */
+const closeOpenBlocks = (text: string) => {
+  let result = text;
+
+  const fences = result.match(/^\s*(```|~~~)/gm)?.length ?? 0;
+  if (fences % 2 === 1) {
+    result += '\n```';
+  }
+
+  const displayMath = result.match(/\$\$/g)?.length ?? 0;
+  if (displayMath % 2 === 1) {
+    result += '$$';
+  }
+
+  return result;
+};
+
+function CodeBlock({ children, ...props }: ComponentPropsWithoutRef<'pre'>) {
+  const { t } = useLanguage();
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.innerText ?? '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error('Kopyalama hatası:', error);
+    }
+  };
+
+  return (
+    <div className="relative group my-3">
+      <button
+        onClick={handleCopy}
+        className="absolute top-2 end-2 flex items-center gap-1 px-2 py-1 text-xs bg-white/90 border border-gray-200 text-gray-600 rounded opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-gray-100 transition-opacity print:hidden"
+        title={t('code.copyTitle')}
+      >
+        {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+        {copied ? t('code.copied') : t('code.copy')}
+      </button>
+      <pre ref={preRef} {...props}>{children}</pre>
+    </div>
+  );
+}
+
+// react-markdown passes its syntax tree node along; it must not reach the DOM
+const domProps = <T extends { node?: unknown }>(props: T): Omit<T, 'node'> => {
+  const rest = { ...props };
+  delete rest.node;
+  return rest;
+};
+
+const components: Components = {
+  pre: (props) => <CodeBlock {...domProps(props)} />,
+  a: (props) => <a {...domProps(props)} target="_blank" rel="noopener noreferrer" />,
+  table: (props) => (
+    <div className="overflow-x-auto my-3">
+      <table {...domProps(props)} />
+    </div>
+  )
+};
+
+interface MarkdownMessageProps {
+  text: string;
+  isStreaming?: boolean;
+  /** Sentence and word to mark while the message is read aloud. */
+  highlight?: SpokenHighlight;
+}
+
+export function MarkdownMessage({ text, isStreaming = false, highlight }: MarkdownMessageProps) {
+  return (
+    <div className="markdown-body text-sm sm:text-base leading-relaxed">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[[rehypeSanitize, sanitizeSchema], [rehypeSpokenHighlight, highlight], rehypeKatex, rehypeHighlight]}
+        components={components}
+      >
+        {isStreaming ? closeOpenBlocks(text) : text}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { useState } from 'react';
+import { useLanguage } from '../hooks/useLanguage';
+
+interface MessageEditorProps {
+  initialText: string;
+  onSubmit: (text: string) => void;
+  onCancel: () => void;
+}
+
+/** Edits a sent question in place; submitting sends it again as a new version. */
+export function MessageEditor({ initialText, onSubmit, onCancel }: MessageEditorProps) {
+  const { t } = useLanguage();
+  const [text, setText] = useState(initialText);
+
+  const submit = () => {
+    if (text.trim()) onSubmit(text);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <textarea
+        autoFocus
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            submit();
+          }
+          if (e.key === 'Escape') onCancel();
+        }}
+        rows={Math.min(8, Math.max(2, text.split('\n').length))}
+        className="w-full min-w-[16rem] p-2 bg-white text-gray-800 text-sm sm:text-base rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-300"
+      />
+      <div className="flex justify-end gap-2 text-sm">
+        <button onClick={onCancel} className="px-3 py-1 rounded-lg hover:bg-white/10">
+          {t('message.cancelEdit')}
+        </button>
+        <button
+          onClick={submit}
+          disabled={!text.trim()}
+          className="px-3 py-1 bg-white text-[#003366] font-medium rounded-lg hover:bg-blue-50 disabled:opacity-50"
+        >
+          {t('message.saveAndSend')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { FileQuestion, MessageCircle } from 'lucide-react';
+import { useLanguage } from '../hooks/useLanguage';
+
+interface NoSourcesNoticeProps {
+  disabled: boolean;
+  onAskInChat: () => void;
+}
+
+export function NoSourcesNotice({ disabled, onAskInChat }: NoSourcesNoticeProps) {
+  const { t } = useLanguage();
+
+  return (
+    <div className="mt-3 p-3 bg-amber-50 border border-amber-200 rounded-xl text-amber-800 flex flex-wrap items-start gap-3">
+      <FileQuestion className="w-5 h-5 flex-shrink-0 mt-0.5" />
+      <p className="flex-1 min-w-[12rem] text-xs leading-relaxed">{t('query.noSources')}</p>
+      <button
+        onClick={onAskInChat}
+        disabled={disabled}
+        className="flex items-center gap-1 px-2 py-1 text-xs bg-white border border-amber-200 rounded-lg hover:bg-amber-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <MessageCircle className="w-3 h-3" />
+        {t('query.askInChat')}
+      </button>
+    </div>
+  );
+}
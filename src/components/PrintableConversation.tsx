@@ -0,0 +1,79 @@
+import { Conversation } from '../types';
+import { LANGUAGES } from '../languages';
+import { useLanguage } from '../hooks/useLanguage';
+import { isImageAttachment } from '../attachments';
+import { getActivePath } from '../messageTree';
+import { MarkdownMessage } from './MarkdownMessage';
+import headerUrl from '../../header.jpg';
+
+interface PrintableConversationProps {
+  conversation: Conversation;
+  title: string;
+  /** Called once the header image has loaded (or failed to), so printing doesn't catch it half drawn. */
+  onReady: () => void;
+}
+
+/**
+ * The branch on screen laid out for paper: school header, then every message with
+ * its sources as numbered notes. Only visible when printing; the browser's
+ * "Save as PDF" turns it into the PDF export.
+ */
+export function PrintableConversation({ conversation, title, onReady }: PrintableConversationProps) {
+  const { language, t } = useLanguage();
+
+  return (
+    <div className="hidden print:block text-black">
+      <div className="relative h-24 mb-6 [print-color-adjust:exact]">
+        <img src={headerUrl} className="w-full h-full object-cover" alt="" onLoad={onReady} onError={onReady} />
+        <div
+          className="absolute inset-0 flex items-center justify-center"
+          style={{ background: 'linear-gradient(to bottom, rgba(0, 51, 102, 0.85), rgba(0, 102, 204, 0.75))' }}
+        >
+          <span className="text-2xl font-bold text-white tracking-wider">TURGUT ÖZAL KAİHL</span>
+        </div>
+      </div>
+
+      <h1 className="text-xl font-semibold text-[#003366]">{title}</h1>
+      <p className="text-xs text-gray-600 mb-6">
+        {t('export.exportedAt', { date: new Date().toLocaleString(language) })}
+      </p>
+
+      {getActivePath(conversation.messages, conversation.activeLeafId).map(msg => (
+        <div key={msg.id} className="mb-4 pb-4 border-b border-gray-300 break-inside-avoid-page">
+          <div className="text-xs text-gray-600 mb-1">
+            <span className="font-semibold text-[#003366]">
+              {msg.type === 'user' ? t('export.you') : t('message.assistant')}
+            </span>
+            {' · '}
+            {msg.timestamp.toLocaleString(language)}
+          </div>
+          <div dir={msg.language ? LANGUAGES[msg.language].dir : 'auto'} lang={msg.language}>
+            {msg.type === 'bot' ? (
+              <MarkdownMessage text={msg.message} />
+            ) : (
+              <p className="text-sm leading-relaxed whitespace-pre-wrap">{msg.message}</p>
+            )}
+          </div>
+          {msg.attachments && msg.attachments.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-2 text-xs text-gray-600">
+              {msg.attachments.map((attachment, index) => (isImageAttachment(attachment) ? (
+                <img key={index} src={attachment.contentString} alt={attachment.name} className="max-h-48 rounded" />
+              ) : (
+                <span key={index}>📎 {attachment.name}</span>
+              )))}
+            </div>
+          )}
+          {msg.sources && msg.sources.length > 0 && (
+            <ol className="mt-2 ps-5 list-decimal text-xs text-gray-600 space-y-1">
+              {msg.sources.map((source, index) => (
+                <li key={index}>
+                  <span className="font-medium">{source.title || t('sources.untitled')}</span>: {source.chunk}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { FileText } from 'lucide-react';
+import { Source } from '../types';
+import { Relevance } from '../relevance';
+import { useLanguage } from '../hooks/useLanguage';
+
+const RELEVANCE_STYLES: Record<Relevance, { bars: number; className: string }> = {
+  high: { bars: 3, className: 'text-green-700 bg-green-50 border-green-200' },
+  medium: { bars: 2, className: 'text-amber-700 bg-amber-50 border-amber-200' },
+  low: { bars: 1, className: 'text-red-700 bg-red-50 border-red-200' }
+};
+
+interface SourceCitationsProps {
+  sources: Source[];
+  relevance?: Relevance;
+  onSelect: (index: number) => void;
+}
+
+export function SourceCitations({ sources, relevance, onSelect }: SourceCitationsProps) {
+  const { t } = useLanguage();
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-200">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <span className="text-xs font-medium text-gray-500">{t('sources.heading', { count: sources.length })}</span>
+        {relevance && (
+          <span
+            className={`flex items-center gap-1.5 px-2 py-0.5 text-[11px] border rounded-full ${RELEVANCE_STYLES[relevance].className}`}
+            title={t('sources.relevanceTitle')}
+          >
+            <span className="flex items-end gap-px h-2.5" aria-hidden="true">
+              {[1, 2, 3].map(bar => (
+                <span
+                  key={bar}
+                  className={`w-0.5 rounded-sm bg-current ${bar <= RELEVANCE_STYLES[relevance].bars ? '' : 'opacity-25'}`}
+                  style={{ height: `${bar * 33}%` }}
+                />
+              ))}
+            </span>
+            {t(`sources.relevance.${relevance}`)}
+          </span>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {sources.map((source, index) => (
+          <button
+            key={index}
+            onClick={() => onSelect(index)}
+            className="flex items-center gap-1.5 max-w-full px-2 py-1 text-xs bg-blue-50 text-blue-800 border border-blue-200 rounded-full hover:bg-blue-100 transition-colors"
+            title={source.title || t('sources.untitled')}
+          >
+            <span className="flex items-center justify-center w-4 h-4 rounded-full bg-[#003366] text-white text-[10px] font-semibold flex-shrink-0">
+              {index + 1}
+            </span>
+            <FileText className="w-3 h-3 flex-shrink-0" />
+            <span className="truncate max-w-[12rem]">{source.title || t('sources.untitled')}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
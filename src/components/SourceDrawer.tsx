@@ -0,0 +1,102 @@
+import { useEffect, useMemo, useRef, ReactNode } from 'react';
+import { ChevronLeft, ChevronRight, FileText, X } from 'lucide-react';
+import { Source } from '../types';
+import { findMatchingPassages } from '../citations';
+import { useLanguage } from '../hooks/useLanguage';
+
+interface SourceDrawerProps {
+  sources: Source[];
+  index: number;
+  answer: string;
+  onChangeIndex: (index: number) => void;
+  onClose: () => void;
+}
+
+export function SourceDrawer({ sources, index, answer, onChangeIndex, onClose }: SourceDrawerProps) {
+  const { t } = useLanguage();
+  const source = sources[index];
+  const firstMatchRef = useRef<HTMLElement>(null);
+
+  const passages = useMemo(
+    () => (source ? findMatchingPassages(answer, source.chunk) : []),
+    [answer, source]
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  useEffect(() => {
+    firstMatchRef.current?.scrollIntoView({ block: 'center' });
+  }, [passages]);
+
+  if (!source) return null;
+
+  const content: ReactNode[] = [];
+  let cursor = 0;
+  passages.forEach((range, i) => {
+    content.push(source.chunk.slice(cursor, range.start));
+    content.push(
+      <mark key={i} ref={i === 0 ? firstMatchRef : undefined} className="bg-yellow-200 rounded px-0.5">
+        {source.chunk.slice(range.start, range.end)}
+      </mark>
+    );
+    cursor = range.end;
+  });
+  content.push(source.chunk.slice(cursor));
+
+  return (
+    <>
+      <div className="fixed inset-0 z-30 bg-black/30" onClick={onClose} />
+      <div className="fixed inset-y-0 end-0 z-40 w-full max-w-md bg-white shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-gray-200 bg-blue-50 flex items-start gap-3">
+          <span className="flex items-center justify-center w-6 h-6 rounded-full bg-[#003366] text-white text-xs font-semibold flex-shrink-0">
+            {index + 1}
+          </span>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-1.5 font-medium text-blue-900 break-words">
+              <FileText className="w-4 h-4 flex-shrink-0" />
+              {source.title || t('sources.untitled')}
+            </div>
+            <div className="text-xs text-blue-700 mt-1">
+              {passages.length > 0 ? t('sources.matchesHighlighted') : t('sources.noMatch')}
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1 text-blue-900 hover:bg-blue-100 rounded" title={t('common.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 text-sm text-gray-700 leading-relaxed whitespace-pre-wrap">
+          {content}
+        </div>
+
+        {sources.length > 1 && (
+          <div className="p-3 border-t border-gray-200 flex items-center justify-between text-sm">
+            <button
+              onClick={() => onChangeIndex(index - 1)}
+              disabled={index === 0}
+              className="flex items-center gap-1 px-2 py-1 text-[#003366] rounded hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <ChevronLeft className="w-4 h-4 rtl:rotate-180" />
+              {t('common.previous')}
+            </button>
+            <span className="text-gray-500">{index + 1} / {sources.length}</span>
+            <button
+              onClick={() => onChangeIndex(index + 1)}
+              disabled={index === sources.length - 1}
+              className="flex items-center gap-1 px-2 py-1 text-[#003366] rounded hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {t('common.next')}
+              <ChevronRight className="w-4 h-4 rtl:rotate-180" />
+            </button>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,44 @@
+import { Pause, Play, SkipBack, SkipForward, Square } from 'lucide-react';
+import { SpeechPlayback } from '../hooks/useSpeechSynthesis';
+import { useLanguage } from '../hooks/useLanguage';
+
+interface SpeechPlaybackBarProps {
+  playback: SpeechPlayback;
+  onSeek: (index: number) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onStop: () => void;
+}
+
+export function SpeechPlaybackBar({ playback, onSeek, onPause, onResume, onStop }: SpeechPlaybackBarProps) {
+  const { t } = useLanguage();
+  const { sentences, index, isPaused } = playback;
+
+  const controlClass = 'p-1.5 text-[#003366] hover:bg-gray-200 rounded transition-colors disabled:opacity-40 disabled:hover:bg-transparent';
+
+  return (
+    <div className="mt-3 pt-2 border-t border-gray-200 flex items-center gap-1">
+      <button onClick={() => onSeek(index - 1)} disabled={index === 0} className={controlClass} title={t('playback.previous')}>
+        <SkipBack className="w-4 h-4 rtl:rotate-180" />
+      </button>
+      {isPaused ? (
+        <button onClick={onResume} className={controlClass} title={t('playback.resume')}>
+          <Play className="w-4 h-4" />
+        </button>
+      ) : (
+        <button onClick={onPause} className={controlClass} title={t('playback.pause')}>
+          <Pause className="w-4 h-4" />
+        </button>
+      )}
+      <button onClick={() => onSeek(index + 1)} disabled={index >= sentences.length - 1} className={controlClass} title={t('playback.next')}>
+        <SkipForward className="w-4 h-4 rtl:rotate-180" />
+      </button>
+      <button onClick={onStop} className={controlClass} title={t('playback.stop')}>
+        <Square className="w-4 h-4" />
+      </button>
+      <span className="ms-auto text-xs text-gray-500">
+        {t('playback.position', { index: index + 1, total: sentences.length })}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useEffect } from 'react';
+import { Play, RotateCcw, X } from 'lucide-react';
+import { Translate, useLanguage } from '../hooks/useLanguage';
+import { MessageKey } from '../i18n';
+import { VoiceOption, VoiceSettings } from '../speech';
+import { DEFAULT_VOICE_SETTINGS, VOICE_SETTING_LIMITS } from '../voiceSettings';
+
+const SLIDERS: { key: keyof typeof VOICE_SETTING_LIMITS; label: MessageKey; step: number; format: (value: number, t: Translate) => string }[] = [
+  { key: 'rate', label: 'voiceSettings.rate', step: 0.1, format: value => `${value.toFixed(1)}x` },
+  { key: 'pitch', label: 'voiceSettings.pitch', step: 0.1, format: value => value.toFixed(1) },
+  { key: 'volume', label: 'voiceSettings.volume', step: 0.05, format: (value, t) => t('voiceSettings.volumeValue', { percent: Math.round(value * 100) }) }
+];
+
+interface VoiceSettingsPanelProps {
+  voices: VoiceOption[];
+  settings: VoiceSettings;
+  unsupportedSettings: (keyof VoiceSettings)[];
+  /** Language of the answers; voices for it are listed first. */
+  lang: string;
+  onChange: (changes: Partial<VoiceSettings>) => void;
+  onTest: (text: string) => void;
+  onClose: () => void;
+}
+
+export function VoiceSettingsPanel({ voices, settings, unsupportedSettings, lang, onChange, onTest, onClose }: VoiceSettingsPanelProps) {
+  const { t } = useLanguage();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const language = lang.split('-')[0].toLowerCase();
+  const isPreferred = (voice: VoiceOption) => !!voice.lang?.toLowerCase().startsWith(language);
+  const preferredVoices = voices.filter(isPreferred);
+  const otherVoices = voices.filter(voice => !isPreferred(voice));
+
+  // A saved voice can disappear, e.g. after switching computers
+  const selectedVoiceExists = !settings.voiceId || voices.some(voice => voice.id === settings.voiceId);
+
+  const nameOf = (voice: VoiceOption) => voice.remote ? t('voiceSettings.onlineVoice', { name: voice.name }) : voice.name;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/30 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white w-full max-w-md rounded-2xl shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <span className="font-medium text-[#003366]">{t('voiceSettings.title')}</span>
+          <button onClick={onClose} className="p-1 text-gray-600 hover:bg-gray-100 rounded" title={t('common.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 flex flex-col gap-4">
+          <label className="flex flex-col gap-1 text-sm text-gray-700">
+            {t('voiceSettings.voice')}
+            <select
+              value={selectedVoiceExists ? settings.voiceId ?? '' : ''}
+              onChange={(e) => onChange({ voiceId: e.target.value || null })}
+              className="p-2 bg-gray-50 border border-gray-200 rounded-lg focus:outline-none focus:border-[#003366]"
+            >
+              <option value="">{t('voiceSettings.automatic')}</option>
+              {preferredVoices.length > 0 && (
+                <optgroup label={t('voiceSettings.recommended')}>
+                  {preferredVoices.map(voice => (
+                    <option key={voice.id} value={voice.id}>{nameOf(voice)}</option>
+                  ))}
+                </optgroup>
+              )}
+              {otherVoices.length > 0 && (
+                <optgroup label={t('voiceSettings.otherLanguages')}>
+                  {otherVoices.map(voice => (
+                    <option key={voice.id} value={voice.id}>
+                      {voice.lang ? `${nameOf(voice)} (${voice.lang})` : nameOf(voice)}
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+            {voices.length > 0 && preferredVoices.length === 0 && (
+              <span className="text-xs text-amber-700">{t('voiceSettings.noVoiceForLanguage')}</span>
+            )}
+          </label>
+
+          {SLIDERS.filter(slider => !unsupportedSettings.includes(slider.key)).map(({ key, label, step, format }) => (
+            <label key={key} className="flex flex-col gap-1 text-sm text-gray-700">
+              <span className="flex justify-between">
+                {t(label)}
+                <span className="text-gray-500">{format(settings[key], t)}</span>
+              </span>
+              <input
+                type="range"
+                min={VOICE_SETTING_LIMITS[key].min}
+                max={VOICE_SETTING_LIMITS[key].max}
+                step={step}
+                value={settings[key]}
+                onChange={(e) => onChange({ [key]: Number(e.target.value) })}
+                className="accent-[#003366]"
+              />
+            </label>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex items-center justify-between">
+          <button
+            onClick={() => onChange(DEFAULT_VOICE_SETTINGS)}
+            className="flex items-center gap-1 px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg"
+          >
+            <RotateCcw className="w-4 h-4" />
+            {t('voiceSettings.defaults')}
+          </button>
+          <button
+            onClick={() => onTest(t('voiceSettings.sample'))}
+            className="flex items-center gap-2 px-4 py-2 bg-[#003366] text-white rounded-lg hover:bg-[#004080] transition-colors"
+          >
+            <Play className="w-4 h-4" />
+            {t('voiceSettings.test')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
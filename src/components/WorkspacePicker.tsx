@@ -0,0 +1,37 @@
+import { Library } from 'lucide-react';
+import { Workspace } from '../types';
+import { useLanguage } from '../hooks/useLanguage';
+
+interface WorkspacePickerProps {
+  workspaces: Workspace[];
+  value: string;
+  disabled: boolean;
+  onChange: (slug: string) => void;
+}
+
+/** Picks the knowledge base the conversation asks, e.g. regulations or a course. */
+export function WorkspacePicker({ workspaces, value, disabled, onChange }: WorkspacePickerProps) {
+  const { t } = useLanguage();
+  // A conversation can outlive its workspace in the list; keep showing what it uses
+  const options = workspaces.some(w => w.slug === value)
+    ? workspaces
+    : [{ slug: value, name: value }, ...workspaces];
+
+  return (
+    <label className="flex items-center gap-2">
+      <Library className="w-4 h-4 text-[#003366]" />
+      <span className="sr-only">{t('controls.workspace')}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className="max-w-[12rem] px-2 py-2 text-sm bg-white border border-gray-200 rounded-lg text-gray-700 focus:outline-none focus:border-[#003366] disabled:opacity-50 disabled:cursor-not-allowed"
+        title={t('controls.workspaceTitle')}
+      >
+        {options.map(workspace => (
+          <option key={workspace.slug} value={workspace.slug}>{workspace.name}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
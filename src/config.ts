@@ -0,0 +1,198 @@
+import { ChatMode, Workspace } from './types';
+
+export type ChatProviderKind = 'workspace' | 'openai';
+
+export type SpeechToTextKind = 'browser' | 'whisper';
+
+export type TextToSpeechKind = 'browser' | 'http';
+
+export type FeedbackSinkKind = 'local' | 'http';
+
+export interface AppConfig {
+  /** Which backend protocol `sendChatMessage` speaks. */
+  provider: ChatProviderKind;
+  /** Origin of the chat backend; empty means same origin (the proxy). */
+  baseUrl: string;
+  /** Workspace slug for the workspace API; new conversations start in it. */
+  workspaceSlug: string;
+  /** Workspaces offered in the picker; empty asks the server for its list. */
+  workspaces: Workspace[];
+  /** Model name sent to OpenAI-compatible servers. */
+  model: string;
+  /** Abort a request when the backend stays silent for this long. */
+  requestTimeoutMs: number;
+  /** Largest request body the proxy accepts; keep in step with its MAX_BODY_BYTES. */
+  maxRequestBytes: number;
+  defaultMode: ChatMode;
+  /** Which speech-to-text engine voice input uses. */
+  speechToText: SpeechToTextKind;
+  /** Transcription endpoint for the `whisper` engine. */
+  whisperUrl: string;
+  /** Model name sent to the transcription endpoint. */
+  whisperModel: string;
+  /** Which text-to-speech engine reads answers aloud. */
+  textToSpeech: TextToSpeechKind;
+  /** Base URL of the speech server for the `http` engine. */
+  ttsUrl: string;
+  /**
+   * Phrase that starts a turn in voice mode, e.g. "Asistan"; empty listens to
+   * everything. Only honoured with the `whisper` engine (see `loadConfig`).
+   */
+  wakePhrase: string;
+  /** Where answer ratings go besides the local log. */
+  feedbackSink: FeedbackSinkKind;
+  /** Collector endpoint for the `http` feedback sink. */
+  feedbackUrl: string;
+  /**
+   * Reply shown when a query-mode question finds no documents, by workspace
+   * slug. Workspaces without one show whatever the server answered.
+   */
+  refusalMessages: Record<string, string>;
+}
+
+const env = import.meta.env;
+
+const isChatMode = (value: unknown): value is ChatMode =>
+  value === 'chat' || value === 'query';
+
+const isProviderKind = (value: unknown): value is ChatProviderKind =>
+  value === 'workspace' || value === 'openai';
+
+const isSpeechToTextKind = (value: unknown): value is SpeechToTextKind =>
+  value === 'browser' || value === 'whisper';
+
+const isTextToSpeechKind = (value: unknown): value is TextToSpeechKind =>
+  value === 'browser' || value === 'http';
+
+const isFeedbackSinkKind = (value: unknown): value is FeedbackSinkKind =>
+  value === 'local' || value === 'http';
+
+const toStringRecord = (value: unknown): Record<string, string> | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+
+  const record: Record<string, string> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (typeof entry === 'string' && entry.trim()) record[key] = entry.trim();
+  }
+  return record;
+};
+
+const isWorkspace = (value: unknown): value is Workspace =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof (value as Workspace).slug === 'string' &&
+  !!(value as Workspace).slug &&
+  typeof (value as Workspace).name === 'string';
+
+// `VITE_WORKSPACES=yonetmelik:Yönetmelikler,fizik:Fizik`; a slug alone is its own name
+const parseWorkspaceList = (value: string | undefined): Workspace[] =>
+  (value ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [slug, ...name] = entry.split(':');
+      return { slug: slug.trim(), name: name.join(':').trim() || slug.trim() };
+    });
+
+const toPositiveNumber = (value: unknown): number | undefined => {
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+};
+
+const defaultConfig: AppConfig = {
+  provider: isProviderKind(env.VITE_CHAT_PROVIDER) ? env.VITE_CHAT_PROVIDER : 'workspace',
+  baseUrl: env.VITE_API_BASE_URL ?? '',
+  workspaceSlug: env.VITE_WORKSPACE_SLUG ?? 'okulyapayzeka',
+  workspaces: parseWorkspaceList(env.VITE_WORKSPACES),
+  model: env.VITE_CHAT_MODEL ?? 'gpt-4o-mini',
+  requestTimeoutMs: toPositiveNumber(env.VITE_REQUEST_TIMEOUT_MS) ?? 60_000,
+  maxRequestBytes: toPositiveNumber(env.VITE_MAX_REQUEST_BYTES) ?? 15 * 1024 * 1024,
+  defaultMode: isChatMode(env.VITE_DEFAULT_MODE) ? env.VITE_DEFAULT_MODE : 'chat',
+  speechToText: isSpeechToTextKind(env.VITE_SPEECH_TO_TEXT) ? env.VITE_SPEECH_TO_TEXT : 'browser',
+  // whisper.cpp's bundled server listens here by default
+  whisperUrl: env.VITE_WHISPER_URL ?? 'http://localhost:8080/inference',
+  whisperModel: env.VITE_WHISPER_MODEL ?? 'whisper-1',
+  textToSpeech: isTextToSpeechKind(env.VITE_TEXT_TO_SPEECH) ? env.VITE_TEXT_TO_SPEECH : 'browser',
+  // Piper's HTTP server listens here by default
+  ttsUrl: env.VITE_TTS_URL ?? 'http://localhost:5000',
+  wakePhrase: env.VITE_WAKE_PHRASE?.trim() ?? '',
+  feedbackSink: isFeedbackSinkKind(env.VITE_FEEDBACK_SINK) ? env.VITE_FEEDBACK_SINK : 'local',
+  feedbackUrl: env.VITE_FEEDBACK_URL ?? '',
+  // A map doesn't fit in an env variable; set these in config.json
+  refusalMessages: {}
+};
+
+let currentConfig: AppConfig = defaultConfig;
+
+/**
+ * Picks the known, well-typed fields out of a runtime config file and ignores
+ * everything else, so a typo in `config.json` can't break the app.
+ */
+const parseConfig = (raw: unknown): Partial<AppConfig> => {
+  if (!raw || typeof raw !== 'object') return {};
+
+  const input = raw as Record<string, unknown>;
+  const config: Partial<AppConfig> = {};
+
+  if (isProviderKind(input.provider)) config.provider = input.provider;
+  if (typeof input.baseUrl === 'string') config.baseUrl = input.baseUrl;
+  if (typeof input.workspaceSlug === 'string' && input.workspaceSlug) config.workspaceSlug = input.workspaceSlug;
+  if (Array.isArray(input.workspaces)) {
+    config.workspaces = input.workspaces
+      .filter(isWorkspace)
+      .map(({ slug, name }) => ({ slug, name: name.trim() || slug }));
+  }
+  if (typeof input.model === 'string' && input.model) config.model = input.model;
+  if (toPositiveNumber(input.requestTimeoutMs)) config.requestTimeoutMs = Number(input.requestTimeoutMs);
+  if (toPositiveNumber(input.maxRequestBytes)) config.maxRequestBytes = Number(input.maxRequestBytes);
+  if (isChatMode(input.defaultMode)) config.defaultMode = input.defaultMode;
+  if (isSpeechToTextKind(input.speechToText)) config.speechToText = input.speechToText;
+  if (typeof input.whisperUrl === 'string' && input.whisperUrl) config.whisperUrl = input.whisperUrl;
+  if (typeof input.whisperModel === 'string' && input.whisperModel) config.whisperModel = input.whisperModel;
+  if (isTextToSpeechKind(input.textToSpeech)) config.textToSpeech = input.textToSpeech;
+  if (typeof input.ttsUrl === 'string' && input.ttsUrl) config.ttsUrl = input.ttsUrl;
+  if (typeof input.wakePhrase === 'string') config.wakePhrase = input.wakePhrase.trim();
+  if (isFeedbackSinkKind(input.feedbackSink)) config.feedbackSink = input.feedbackSink;
+  if (typeof input.feedbackUrl === 'string') config.feedbackUrl = input.feedbackUrl;
+  const refusalMessages = toStringRecord(input.refusalMessages);
+  if (refusalMessages) config.refusalMessages = refusalMessages;
+
+  return config;
+};
+
+/**
+ * Loads `/config.json` next to the deployed app and layers it over the
+ * build-time env values. A missing file is fine: the env values stay in place.
+ */
+export const loadConfig = async (): Promise<AppConfig> => {
+  try {
+    const response = await fetch('/config.json', { cache: 'no-cache' });
+    const isJson = response.headers.get('content-type')?.includes('application/json');
+
+    if (response.ok && isJson) {
+      currentConfig = { ...defaultConfig, ...parseConfig(await response.json()) };
+    }
+  } catch (error) {
+    console.warn('config.json okunamadı, varsayılan ayarlar kullanılıyor:', error);
+  }
+
+  currentConfig = { ...currentConfig, baseUrl: currentConfig.baseUrl.replace(/\/+$/, '') };
+
+  // Waiting for the wake phrase keeps the microphone open all day. Web Speech
+  // would stream that audio to the browser vendor's cloud recognizer and stop
+  // working offline, so only a local Whisper server may do it.
+  if (currentConfig.wakePhrase && currentConfig.speechToText !== 'whisper') {
+    console.warn('wakePhrase yalnızca speechToText "whisper" ile kullanılabilir; uyandırma ifadesi devre dışı');
+    currentConfig = { ...currentConfig, wakePhrase: '' };
+  }
+  return currentConfig;
+};
+
+export const getConfig = (): AppConfig => currentConfig;
+
+/** The configured refusal for a workspace, or an empty string to keep the server's reply. */
+export const getRefusalMessage = (workspaceSlug: string) =>
+  Object.prototype.hasOwnProperty.call(currentConfig.refusalMessages, workspaceSlug)
+    ? currentConfig.refusalMessages[workspaceSlug]
+    : '';
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { ConversationImportError, EXPORT_SCHEMA_VERSION, parseConversationExport, toJson } from './conversationExport';
+import { Conversation } from './types';
+
+const conversation: Conversation = {
+  id: 'c1',
+  title: 'Sınav tarihleri',
+  sessionId: 's1',
+  createdAt: new Date('2024-05-17T09:00:00Z'),
+  updatedAt: new Date('2024-05-17T09:05:00Z'),
+  messages: [
+    { id: 'm1', parentId: null, type: 'user', message: 'Sınav ne zaman?', timestamp: new Date('2024-05-17T09:00:00Z'), mode: 'query' },
+    {
+      id: 'm2',
+      parentId: 'm1',
+      type: 'bot',
+      message: 'Sınav 3 Haziran’da.',
+      timestamp: new Date('2024-05-17T09:00:05Z'),
+      mode: 'query',
+      sources: [{ title: 'takvim.pdf', chunk: '3 Haziran: matematik sınavı' }],
+      relevance: 'high',
+      language: 'tr',
+      feedback: { rating: 'up', comment: '' }
+    }
+  ]
+};
+
+// An export with the bot reply's fields replaced by `reply`
+const exportWith = (reply: Record<string, unknown>) => {
+  const data = JSON.parse(toJson(conversation));
+  Object.assign(data.conversation.messages[1], reply);
+  return JSON.stringify(data);
+};
+
+describe('parseConversationExport', () => {
+  it('restores an export as a new conversation', () => {
+    const imported = parseConversationExport(toJson(conversation));
+
+    expect(imported.id).not.toBe(conversation.id);
+    expect(imported.sessionId).not.toBe(conversation.sessionId);
+    expect(imported.replayPending).toBe(true);
+    expect(imported.messages).toEqual(conversation.messages);
+    expect(imported.createdAt).toEqual(conversation.createdAt);
+  });
+
+  it('drops a language this build does not know', () => {
+    const imported = parseConversationExport(exportWith({ language: 'fr' }));
+
+    expect(imported.messages[1]).not.toHaveProperty('language');
+    expect(imported.messages[1].relevance).toBe('high');
+  });
+
+  it('drops an unknown relevance rating', () => {
+    const imported = parseConversationExport(exportWith({ relevance: 'very-high' }));
+
+    expect(imported.messages[1]).not.toHaveProperty('relevance');
+    expect(imported.messages[1].sources).toHaveLength(1);
+  });
+
+  it('drops unknown statuses, modes, errors and feedback', () => {
+    const imported = parseConversationExport(exportWith({
+      status: 'archived',
+      mode: 'debate',
+      error: 'timeout',
+      feedback: { rating: 5 }
+    }));
+
+    expect(imported.messages[1]).not.toHaveProperty('status');
+    expect(imported.messages[1]).not.toHaveProperty('mode');
+    expect(imported.messages[1]).not.toHaveProperty('error');
+    expect(imported.messages[1]).not.toHaveProperty('feedback');
+  });
+
+  it('marks a message that was being retried as failed', () => {
+    const imported = parseConversationExport(exportWith({ status: 'retrying' }));
+
+    expect(imported.messages[1].status).toBe('failed');
+  });
+
+  it('refuses files from a newer format version', () => {
+    const data = JSON.parse(toJson(conversation));
+    data.schemaVersion = EXPORT_SCHEMA_VERSION + 1;
+
+    expect(() => parseConversationExport(JSON.stringify(data))).toThrow(ConversationImportError);
+  });
+});
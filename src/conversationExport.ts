@@ -0,0 +1,203 @@
+import { ChatMessage, Conversation } from './types';
+import { isLanguage, Language } from './languages';
+import { MessageKey, MessageParams, translate } from './i18n';
+import { reviveConversation } from './db';
+import { createSessionId } from './session';
+import { getActivePath } from './messageTree';
+
+/**
+ * Version of the JSON export format. Bump it when a change would make older
+ * builds misread a file, and teach `parseConversationExport` to upgrade the
+ * previous versions.
+ */
+export const EXPORT_SCHEMA_VERSION = 2;
+
+export type ExportFormat = 'markdown' | 'pdf' | 'json';
+
+/**
+ * The lossless export: the conversation as stored, attachments and every
+ * branch included. Version 1 files predate branches; their messages are one
+ * linear transcript and get linked up on import.
+ */
+export interface ConversationExport {
+  schemaVersion: number;
+  exportedAt: string;
+  conversation: Conversation;
+}
+
+export type ImportErrorCode = 'invalid-json' | 'unsupported-version' | 'invalid-format';
+
+/** A file that can't be imported; the UI words it from `code` and `params`. */
+export class ConversationImportError extends Error {
+  constructor(public code: ImportErrorCode, public params: Record<string, string> = {}) {
+    super(`Conversation import failed: ${code}`);
+    this.name = 'ConversationImportError';
+  }
+}
+
+// Long passages would drown the conversation they are attached to
+const MAX_FOOTNOTE_CHARS = 300;
+
+const toFootnoteText = (chunk: string) => {
+  const text = chunk.replace(/\s+/g, ' ').trim();
+  return text.length > MAX_FOOTNOTE_CHARS ? `${text.slice(0, MAX_FOOTNOTE_CHARS)}…` : text;
+};
+
+/**
+ * Renders the branch on screen as Markdown. Each reply's sources become
+ * footnotes, numbered across the whole document; attachments are listed by name.
+ */
+export const toMarkdown = (conversation: Conversation, title: string, language: Language): string => {
+  const t = (key: MessageKey, params?: MessageParams) => translate(language, key, params);
+  const footnotes: string[] = [];
+
+  const renderMessage = (message: ChatMessage) => {
+    const author = message.type === 'user' ? t('export.you') : t('message.assistant');
+    const parts = [`**${author}** · ${message.timestamp.toLocaleString(language)}`];
+
+    if (message.message) parts.push(message.message);
+    if (message.attachments?.length) {
+      parts.push(`*${t('export.attachments', { names: message.attachments.map(a => a.name).join(', ') })}*`);
+    }
+    if (message.sources?.length) {
+      const refs = message.sources.map(source => {
+        footnotes.push(`**${source.title || t('sources.untitled')}**: ${toFootnoteText(source.chunk)}`);
+        return `[^${footnotes.length}]`;
+      });
+      parts.push(`${t('export.sources')}: ${refs.join(' ')}`);
+    }
+    if (message.status === 'cancelled') parts.push(`*${t('message.cancelled')}*`);
+
+    return parts.join('\n\n');
+  };
+
+  const heading = `# ${title}\n\n*${t('export.exportedAt', { date: new Date().toLocaleString(language) })}*`;
+  const body = getActivePath(conversation.messages, conversation.activeLeafId).map(renderMessage).join('\n\n---\n\n');
+  const footnoteSection = footnotes.map((text, index) => `[^${index + 1}]: ${text}`).join('\n');
+
+  return [heading, body, footnoteSection].filter(Boolean).join('\n\n') + '\n';
+};
+
+export const toJson = (conversation: Conversation): string => {
+  const data: ConversationExport = {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isValidDate = (value: unknown) =>
+  (typeof value === 'string' || typeof value === 'number') && !Number.isNaN(new Date(value).getTime());
+
+const isValidMessage = (value: unknown) =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  (value.type === 'user' || value.type === 'bot') &&
+  (value.parentId === undefined || value.parentId === null || typeof value.parentId === 'string') &&
+  typeof value.message === 'string' &&
+  isValidDate(value.timestamp) &&
+  (value.attachments === undefined || (Array.isArray(value.attachments) && value.attachments.every(attachment =>
+    isRecord(attachment) && typeof attachment.name === 'string' && typeof attachment.mime === 'string' && typeof attachment.contentString === 'string'
+  ))) &&
+  (value.sources === undefined || (Array.isArray(value.sources) && value.sources.every(source =>
+    isRecord(source) && typeof source.title === 'string' && typeof source.chunk === 'string'
+  )));
+
+const MESSAGE_STATUSES: unknown[] = ['pending', 'retrying', 'failed', 'cancelled'];
+const RELEVANCES: unknown[] = ['high', 'medium', 'low'];
+
+/**
+ * Drops optional values this build doesn't know, from a newer build or a hand
+ * edit: the UI looks `language` and `relevance` up in tables and would crash
+ * on them, and the rest would show nonsense. A message still waiting on a
+ * retry in the exporting browser is marked failed, as nothing retries it here.
+ */
+const dropUnknownValues = (message: ChatMessage): ChatMessage => {
+  const cleaned: ChatMessage = { ...message };
+  const value = message as unknown as Record<string, unknown>;
+
+  if (value.mode !== undefined && value.mode !== 'chat' && value.mode !== 'query') delete cleaned.mode;
+  if (value.language !== undefined && !isLanguage(value.language)) delete cleaned.language;
+  if (value.relevance !== undefined && !RELEVANCES.includes(value.relevance)) delete cleaned.relevance;
+  if (value.status !== undefined && !MESSAGE_STATUSES.includes(value.status)) delete cleaned.status;
+  if (value.error !== undefined && !(isRecord(value.error) && typeof value.error.code === 'string')) delete cleaned.error;
+  if (value.feedback !== undefined && !(
+    isRecord(value.feedback) &&
+    (value.feedback.rating === 'up' || value.feedback.rating === 'down') &&
+    typeof value.feedback.comment === 'string'
+  )) {
+    delete cleaned.feedback;
+  }
+  if (cleaned.status === 'retrying') cleaned.status = 'failed';
+
+  return cleaned;
+};
+
+/**
+ * Reads a file written by `toJson` back into a conversation. The result gets
+ * a new ID and server session, so importing the same file twice, or into the
+ * browser it came from, never overwrites or continues an existing chat.
+ */
+export const parseConversationExport = (text: string): Conversation => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ConversationImportError('invalid-json');
+  }
+
+  if (!isRecord(data) || typeof data.schemaVersion !== 'number') {
+    throw new ConversationImportError('invalid-format');
+  }
+  if (data.schemaVersion > EXPORT_SCHEMA_VERSION) {
+    throw new ConversationImportError('unsupported-version', { version: String(data.schemaVersion) });
+  }
+
+  const conversation = data.conversation;
+  if (
+    !isRecord(conversation) ||
+    typeof conversation.title !== 'string' ||
+    !isValidDate(conversation.createdAt) ||
+    !isValidDate(conversation.updatedAt) ||
+    (conversation.activeLeafId !== undefined && typeof conversation.activeLeafId !== 'string') ||
+    (conversation.workspace !== undefined && typeof conversation.workspace !== 'string') ||
+    !Array.isArray(conversation.messages) ||
+    !conversation.messages.every(isValidMessage)
+  ) {
+    throw new ConversationImportError('invalid-format');
+  }
+
+  const revived = reviveConversation(conversation as unknown as Conversation);
+  return {
+    ...revived,
+    id: crypto.randomUUID(),
+    sessionId: createSessionId(),
+    replayPending: revived.messages.length > 0,
+    messages: revived.messages.map(dropUnknownValues)
+  };
+};
+
+/** File name for an export, e.g. `sinav-tarihleri-2024-05-17.md`. */
+export const exportFileName = (title: string, extension: string) => {
+  const slug = title
+    .toLocaleLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  const date = new Date().toISOString().slice(0, 10);
+  return `${slug || 'sohbet'}-${date}.${extension}`;
+};
+
+export const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
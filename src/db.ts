@@ -0,0 +1,97 @@
+import { ChatAttachment, ChatMessage, Conversation } from './types';
+import type { FeedbackRecord } from './feedback';
+import { linkMessages } from './messageTree';
+
+const DB_NAME = 'okul-asistani';
+const DB_VERSION = 2;
+const CONVERSATIONS_STORE = 'conversations';
+const FEEDBACK_STORE = 'feedback';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+          db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+        }
+        // One entry per rated answer; rating it again replaces the entry
+        if (!db.objectStoreNames.contains(FEEDBACK_STORE)) {
+          db.createObjectStore(FEEDBACK_STORE, { keyPath: 'messageId' });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+};
+
+const runRequest = <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> =>
+  openDb().then(db => new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  }));
+
+// Messages saved before multiple attachments were supported hold one `attachment`
+type StoredMessage = ChatMessage & { attachment?: ChatAttachment };
+
+// Dates survive structured cloning, but records written by older builds or
+// imported from JSON may hold ISO strings instead.
+const reviveMessage = ({ attachment, ...message }: StoredMessage): ChatMessage => ({
+  ...message,
+  attachments: message.attachments ?? (attachment ? [attachment] : undefined),
+  timestamp: new Date(message.timestamp)
+});
+
+export const reviveConversation = (conversation: Conversation): Conversation => ({
+  ...conversation,
+  createdAt: new Date(conversation.createdAt),
+  updatedAt: new Date(conversation.updatedAt),
+  messages: linkMessages((conversation.messages ?? []).map(reviveMessage))
+});
+
+export const loadConversations = async (): Promise<Conversation[]> => {
+  const records = await runRequest<Conversation[]>(
+    CONVERSATIONS_STORE,
+    'readonly',
+    store => store.getAll()
+  );
+
+  return records
+    .map(reviveConversation)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+export const saveConversation = async (conversation: Conversation): Promise<void> => {
+  await runRequest(CONVERSATIONS_STORE, 'readwrite', store => store.put(conversation));
+};
+
+export const deleteConversation = async (id: string): Promise<void> => {
+  await runRequest(CONVERSATIONS_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const saveFeedback = async (record: FeedbackRecord): Promise<void> => {
+  await runRequest(FEEDBACK_STORE, 'readwrite', store => store.put(record));
+};
+
+export const loadFeedback = async (): Promise<FeedbackRecord[]> => {
+  const records = await runRequest<FeedbackRecord[]>(FEEDBACK_STORE, 'readonly', store => store.getAll());
+  return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
@@ -0,0 +1,90 @@
+import { ChatApiErrorCode } from './types';
+
+export interface ChatApiErrorOptions {
+  status?: number;
+  /** From the `Retry-After` header, when the server sent one. */
+  retryAfterSeconds?: number;
+  details?: unknown;
+}
+
+/**
+ * A failed chat request. `message` is only for the console; the UI words the
+ * error itself from `code`, in the user's language.
+ */
+export class ChatApiError extends Error {
+  status?: number;
+  retryAfterSeconds?: number;
+  details?: unknown;
+
+  constructor(public code: ChatApiErrorCode, message: string, options: ChatApiErrorOptions = {}) {
+    super(message);
+    this.name = 'ChatApiError';
+    this.status = options.status;
+    this.retryAfterSeconds = options.retryAfterSeconds;
+    this.details = options.details;
+  }
+}
+
+/**
+ * Raised when the caller aborts an in-flight request, so the UI can tell a
+ * user cancellation apart from a failure.
+ */
+export class ChatAbortedError extends ChatApiError {
+  constructor(details?: unknown) {
+    super('aborted', 'Response generation aborted', { details });
+    this.name = 'ChatAbortedError';
+  }
+}
+
+const codeForStatus = (status: number): ChatApiErrorCode => {
+  if (status === 401) return 'auth';
+  if (status === 403) return 'forbidden';
+  if (status === 429) return 'rate-limited';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status === 413) return 'too-large';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+};
+
+/**
+ * Builds a ChatApiError from a non-2xx response, preferring the message the
+ * server put in its JSON body.
+ */
+export const createResponseError = async (response: Response): Promise<ChatApiError> => {
+  let errorMessage = `API error response: ${response.status} ${response.statusText}`;
+
+  try {
+    const errorData = await response.json();
+    if (errorData.message) {
+      errorMessage = errorData.message;
+    } else if (errorData.error) {
+      errorMessage = typeof errorData.error === 'string' ? errorData.error : errorData.error.message ?? errorMessage;
+    }
+  } catch {
+    // If we can't parse the error response, use the default message
+  }
+
+  return new ChatApiError(codeForStatus(response.status), errorMessage, {
+    status: response.status,
+    retryAfterSeconds: parseRetryAfter(response.headers.get('retry-after'))
+  });
+};
+
+/**
+ * Whether trying the same request again later can succeed: dropped
+ * connections, rate limiting and server-side failures.
+ */
+export const isTransientError = (error: unknown): error is ChatApiError =>
+  error instanceof ChatApiError &&
+  (error.code === 'network' || error.code === 'rate-limited' || error.code === 'server');
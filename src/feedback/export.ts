@@ -0,0 +1,36 @@
+import { FeedbackRecord } from './types';
+
+const COLUMNS: { header: string; value: (record: FeedbackRecord) => string }[] = [
+  { header: 'createdAt', value: record => record.createdAt },
+  { header: 'rating', value: record => record.rating },
+  { header: 'comment', value: record => record.comment },
+  { header: 'question', value: record => record.question },
+  { header: 'answer', value: record => record.answer },
+  { header: 'mode', value: record => record.mode },
+  { header: 'workspace', value: record => record.workspace },
+  { header: 'sources', value: record => record.sources.map(source => source.title).join('; ') },
+  { header: 'sourceExcerpts', value: record => record.sources.map(source => source.chunk).join('\n---\n') },
+  { header: 'responseId', value: record => record.responseId },
+  { header: 'conversationId', value: record => record.conversationId },
+  { header: 'messageId', value: record => record.messageId }
+];
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const toCell = (value: string) => {
+  const safe = FORMULA_START.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+};
+
+/**
+ * One row per rated answer. Starts with a byte order mark so Excel reads the
+ * Turkish and Arabic text as UTF-8.
+ */
+export const toFeedbackCsv = (records: FeedbackRecord[]): string =>
+  '\uFEFF' + [
+    COLUMNS.map(column => column.header).join(','),
+    ...records.map(record => COLUMNS.map(column => toCell(column.value(record))).join(','))
+  ].join('\r\n');
+
+export const toFeedbackJson = (records: FeedbackRecord[]): string => JSON.stringify(records, null, 2);
@@ -0,0 +1,26 @@
+import { FeedbackSink } from './types';
+
+export interface HttpFeedbackSinkConfig {
+  /** Collector endpoint; each rating is POSTed to it as one JSON `FeedbackRecord`. */
+  url: string;
+}
+
+/**
+ * Sends ratings to a collector service. A changed rating is sent again with
+ * the same `messageId`, so the collector should keep the latest per message.
+ */
+export const createHttpFeedbackSink = (config: HttpFeedbackSinkConfig): FeedbackSink => ({
+  async submit(record) {
+    const response = await fetch(config.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(record),
+      // Let a rating given right before closing the tab still go out
+      keepalive: true
+    });
+
+    if (!response.ok) {
+      throw new Error(`Feedback collector responded with ${response.status} ${response.statusText}`);
+    }
+  }
+});
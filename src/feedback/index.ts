@@ -0,0 +1,46 @@
+import { AppConfig, getConfig } from '../config';
+import { loadFeedback } from '../db';
+import { FeedbackRecord, FeedbackSink } from './types';
+import { createLocalFeedbackSink } from './localSink';
+import { createHttpFeedbackSink } from './httpSink';
+
+export type { FeedbackRating, FeedbackRecord, FeedbackSink } from './types';
+export { toFeedbackCsv, toFeedbackJson } from './export';
+
+/**
+ * The local log is always written, so administrators can export ratings
+ * even when a collector is configured or unreachable.
+ */
+export const createFeedbackSink = (config: AppConfig): FeedbackSink => {
+  const local = createLocalFeedbackSink();
+
+  switch (config.feedbackSink) {
+    case 'http': {
+      if (!config.feedbackUrl) {
+        console.warn('feedbackSink "http" için feedbackUrl gerekli; geri bildirimler yalnızca yerelde tutulacak');
+        return local;
+      }
+      const http = createHttpFeedbackSink({ url: config.feedbackUrl });
+      return {
+        async submit(record) {
+          await local.submit(record);
+          await http.submit(record);
+        }
+      };
+    }
+    case 'local':
+      return local;
+  }
+};
+
+let sink: { config: AppConfig; instance: FeedbackSink } | null = null;
+
+export const submitFeedback = (record: FeedbackRecord): Promise<void> => {
+  const config = getConfig();
+  if (!sink || sink.config !== config) {
+    sink = { config, instance: createFeedbackSink(config) };
+  }
+  return sink.instance.submit(record);
+};
+
+export const loadFeedbackLog = loadFeedback;
@@ -0,0 +1,7 @@
+import { saveFeedback } from '../db';
+import { FeedbackSink } from './types';
+
+/** Keeps ratings in IndexedDB, where the feedback export reads them from. */
+export const createLocalFeedbackSink = (): FeedbackSink => ({
+  submit: saveFeedback
+});
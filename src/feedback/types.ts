@@ -0,0 +1,26 @@
+import { ChatMode, MessageFeedback, Source } from '../types';
+
+export type FeedbackRating = MessageFeedback['rating'];
+
+/** A rating of one answer, with what is needed to find out why it was wrong. */
+export interface FeedbackRecord {
+  /** The rated bot message; rating it again replaces the record. */
+  messageId: string;
+  /** `id` of the workspace response, to look the answer up in the server's chat logs. */
+  responseId: string;
+  conversationId: string;
+  workspace: string;
+  rating: FeedbackRating;
+  comment: string;
+  question: string;
+  answer: string;
+  mode: ChatMode;
+  sources: Source[];
+  /** ISO timestamp of the latest rating. */
+  createdAt: string;
+}
+
+/** Somewhere ratings are kept or sent. */
+export interface FeedbackSink {
+  submit(record: FeedbackRecord): Promise<void>;
+}
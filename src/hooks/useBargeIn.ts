@@ -0,0 +1,50 @@
+import { useEffect, useRef } from 'react';
+import { detectVoiceActivity } from '../speech/vad';
+
+// Stricter than when recording a question: the speakers are playing the answer
+// into the same room, and echo cancellation doesn't catch all of it.
+const BARGE_IN_THRESHOLD = 0.05;
+const BARGE_IN_MIN_SPEECH_MS = 400;
+
+/**
+ * Watches the microphone while `enabled` and calls `onSpeech` once someone
+ * starts talking, so voice mode can cut its answer short and listen instead.
+ */
+export const useBargeIn = ({ enabled, onSpeech }: { enabled: boolean; onSpeech: () => void }) => {
+  const onSpeechRef = useRef(onSpeech);
+  onSpeechRef.current = onSpeech;
+
+  useEffect(() => {
+    if (!enabled || !navigator.mediaDevices?.getUserMedia) return;
+
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let stopDetection: (() => void) | null = null;
+
+    navigator.mediaDevices
+      .getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } })
+      .then(granted => {
+        stream = granted;
+        if (cancelled) {
+          granted.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stopDetection = detectVoiceActivity(granted, {
+          threshold: BARGE_IN_THRESHOLD,
+          minSpeechMs: BARGE_IN_MIN_SPEECH_MS,
+          silenceMs: 1000,
+          onSpeechStart: () => onSpeechRef.current()
+        });
+      })
+      .catch(error => {
+        // Without the microphone the answer simply plays to the end
+        console.warn('Söz kesme için mikrofon açılamadı:', error);
+      });
+
+    return () => {
+      cancelled = true;
+      stopDetection?.();
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [enabled]);
+};
@@ -0,0 +1,179 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ChatMessage, Conversation } from '../types';
+import {
+  loadConversations,
+  saveConversation,
+  deleteConversation as deleteStoredConversation
+} from '../db';
+import { createSessionId } from '../session';
+import { getConfig } from '../config';
+
+// A streaming reply changes its conversation with every chunk; writing the
+// whole record (attachments included) each time would keep IndexedDB busy,
+// so a conversation is only written once it has been quiet this long.
+const SAVE_DELAY_MS = 1000;
+
+const createConversation = (workspace?: string): Conversation => {
+  const now = new Date();
+  return {
+    id: crypto.randomUUID(),
+    title: '',
+    sessionId: createSessionId(),
+    workspace,
+    createdAt: now,
+    updatedAt: now,
+    messages: []
+  };
+};
+
+/** Slug of the workspace a conversation talks to. */
+export const getConversationWorkspace = (conversation: Conversation | null) =>
+  conversation?.workspace || getConfig().workspaceSlug;
+
+/** The title to show; `fallback` names a conversation that has nothing to go by yet. */
+export const getConversationTitle = (conversation: Conversation, fallback: string) => {
+  if (conversation.title) return conversation.title;
+
+  const firstUserMessage = conversation.messages.find(m => m.type === 'user' && m.message.trim());
+  if (!firstUserMessage) return fallback;
+
+  const text = firstUserMessage.message.trim();
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+};
+
+export const useConversations = () => {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const unsavedIdsRef = useRef<Set<string>>(new Set());
+  const conversationsRef = useRef(conversations);
+  const saveTimersRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadConversations()
+      .catch(error => {
+        console.error('Sohbet geçmişi yüklenemedi:', error);
+        return [] as Conversation[];
+      })
+      .then(stored => {
+        if (cancelled) return;
+        // A fresh conversation is only written to IndexedDB once it changes
+        const initial = stored.length > 0 ? stored : [createConversation()];
+        setConversations(initial);
+        setActiveId(initial[0].id);
+        setIsLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const writeConversation = useCallback((id: string) => {
+    clearTimeout(saveTimersRef.current.get(id));
+    saveTimersRef.current.delete(id);
+
+    const conversation = conversationsRef.current.find(c => c.id === id);
+    if (!conversation) return;
+    saveConversation(conversation).catch(error => {
+      console.error('Sohbet kaydedilemedi:', error);
+    });
+  }, []);
+
+  // Write changed conversations back once React has committed them and they
+  // have stopped changing
+  useEffect(() => {
+    conversationsRef.current = conversations;
+
+    unsavedIdsRef.current.forEach(id => {
+      clearTimeout(saveTimersRef.current.get(id));
+      saveTimersRef.current.set(id, setTimeout(() => writeConversation(id), SAVE_DELAY_MS));
+    });
+    unsavedIdsRef.current.clear();
+  }, [conversations, writeConversation]);
+
+  // Don't lose the last changes when the tab is closed before the delay is up
+  useEffect(() => {
+    const timers = saveTimersRef.current;
+    const flush = () => Array.from(timers.keys()).forEach(writeConversation);
+
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [writeConversation]);
+
+  const updateConversation = useCallback((
+    id: string,
+    update: (conversation: Conversation) => Partial<Pick<Conversation, 'title' | 'sessionId' | 'workspace' | 'messages' | 'activeLeafId' | 'replayPending'>>
+  ) => {
+    unsavedIdsRef.current.add(id);
+    setConversations(prev => prev.map(conversation =>
+      conversation.id === id
+        ? { ...conversation, ...update(conversation), updatedAt: new Date() }
+        : conversation
+    ));
+  }, []);
+
+  const updateMessages = useCallback((id: string, update: (messages: ChatMessage[]) => ChatMessage[]) => {
+    updateConversation(id, conversation => ({ messages: update(conversation.messages) }));
+  }, [updateConversation]);
+
+  const renameConversation = useCallback((id: string, title: string) => {
+    updateConversation(id, () => ({ title: title.trim() }));
+  }, [updateConversation]);
+
+  /** Opens an empty conversation in `workspace`, or the configured one. */
+  const startConversation = useCallback((workspace?: string) => {
+    const conversation = createConversation(workspace);
+    // Drop untouched conversations instead of piling up empty entries
+    setConversations(prev => [conversation, ...prev.filter(c => c.messages.length > 0 || c.title)]);
+    setActiveId(conversation.id);
+  }, []);
+
+  /** Adds a conversation restored from an export and switches to it. */
+  const importConversation = useCallback((conversation: Conversation) => {
+    unsavedIdsRef.current.add(conversation.id);
+    setConversations(prev => [conversation, ...prev.filter(c => c.messages.length > 0 || c.title)]);
+    setActiveId(conversation.id);
+  }, []);
+
+  const deleteConversation = useCallback((id: string) => {
+    clearTimeout(saveTimersRef.current.get(id));
+    saveTimersRef.current.delete(id);
+    deleteStoredConversation(id).catch(error => {
+      console.error('Sohbet silinemedi:', error);
+    });
+
+    const remaining = conversations.filter(c => c.id !== id);
+    if (remaining.length === 0) {
+      const conversation = createConversation();
+      setConversations([conversation]);
+      setActiveId(conversation.id);
+      return;
+    }
+
+    setConversations(prev => prev.filter(c => c.id !== id));
+    if (activeId === id) {
+      setActiveId(remaining[0].id);
+    }
+  }, [conversations, activeId]);
+
+  const activeConversation = conversations.find(c => c.id === activeId) ?? null;
+
+  return {
+    conversations,
+    activeConversation,
+    isLoaded,
+    selectConversation: setActiveId,
+    startConversation,
+    renameConversation,
+    updateConversation,
+    updateMessages,
+    importConversation,
+    deleteConversation
+  };
+};
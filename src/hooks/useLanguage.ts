@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { Language, LANGUAGES, loadLanguage, saveLanguage } from '../languages';
+import { MessageKey, MessageParams, translate } from '../i18n';
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+let currentLanguage: Language = loadLanguage();
+const listeners = new Set<() => void>();
+
+const subscribe = (onChange: () => void) => {
+  listeners.add(onChange);
+  return () => {
+    listeners.delete(onChange);
+  };
+};
+
+const setLanguage = (language: Language) => {
+  if (language === currentLanguage) return;
+  currentLanguage = language;
+  saveLanguage(language);
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * The language the user picked for the interface and for speech. Shared by
+ * every component that uses it; also sets `lang` and `dir` on the page.
+ */
+export const useLanguage = () => {
+  const language = useSyncExternalStore(subscribe, () => currentLanguage);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+    document.documentElement.dir = LANGUAGES[language].dir;
+  }, [language]);
+
+  const t: Translate = useCallback((key, params) => translate(language, key, params), [language]);
+
+  return { language, setLanguage, t };
+};
@@ -0,0 +1,287 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useSpeechRecognition } from './useSpeechRecognition';
+
+type Handler<E = Event> = ((event: E) => void) | null;
+
+interface FakeResultEvent {
+  results: ({ transcript: string }[] & { isFinal: boolean })[];
+  resultIndex: number;
+}
+
+/** Stands in for the browser's recognizer; tests fire its events by hand. */
+class FakeSpeechRecognition {
+  static instances: FakeSpeechRecognition[] = [];
+
+  continuous = false;
+  interimResults = false;
+  lang = '';
+  onstart: Handler = null;
+  onend: Handler = null;
+  onresult: Handler<FakeResultEvent> = null;
+  onerror: Handler<{ error: string; message: string }> = null;
+  startCalls = 0;
+  stopCalls = 0;
+  abortCalls = 0;
+  private results: FakeResultEvent['results'] = [];
+
+  constructor() {
+    FakeSpeechRecognition.instances.push(this);
+  }
+
+  start() {
+    this.startCalls++;
+    this.results = [];
+  }
+
+  stop() {
+    this.stopCalls++;
+  }
+
+  abort() {
+    this.abortCalls++;
+  }
+
+  fireStart() {
+    this.onstart?.(new Event('start'));
+  }
+
+  /** Adds a result; like the browser, earlier results stay in the list. */
+  fireResult(transcript: string, isFinal: boolean) {
+    const resultIndex = this.results.length;
+    this.results.push(Object.assign([{ transcript }], { isFinal }));
+    this.onresult?.({ results: [...this.results], resultIndex });
+    // An interim result is replaced by whatever comes next for the same phrase
+    if (!isFinal) this.results.pop();
+  }
+
+  fireError(error: string) {
+    this.onerror?.({ error, message: '' });
+  }
+
+  fireEnd() {
+    this.onend?.(new Event('end'));
+  }
+}
+
+const recognizer = () => FakeSpeechRecognition.instances[FakeSpeechRecognition.instances.length - 1];
+
+describe('useSpeechRecognition', () => {
+  beforeEach(() => {
+    FakeSpeechRecognition.instances = [];
+    Object.assign(window, { SpeechRecognition: FakeSpeechRecognition });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    Reflect.deleteProperty(window, 'SpeechRecognition');
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('goes idle → starting → listening → processing → idle', () => {
+    const { result } = renderHook(() => useSpeechRecognition({ lang: 'en-US' }));
+    expect(result.current.status).toBe('idle');
+    expect(result.current.isSupported).toBe(true);
+
+    act(() => result.current.startListening());
+    expect(result.current.status).toBe('starting');
+    expect(result.current.isListening).toBe(true);
+    expect(recognizer().startCalls).toBe(1);
+    expect(recognizer().lang).toBe('en-US');
+
+    act(() => recognizer().fireStart());
+    expect(result.current.status).toBe('listening');
+
+    act(() => result.current.stopListening());
+    expect(result.current.status).toBe('processing');
+    expect(result.current.isListening).toBe(false);
+    expect(recognizer().stopCalls).toBe(1);
+
+    act(() => recognizer().fireEnd());
+    expect(result.current.status).toBe('idle');
+    expect(result.current.error).toBeNull();
+  });
+
+  it('ignores a second start while a session is running', () => {
+    const { result } = renderHook(() => useSpeechRecognition());
+
+    act(() => result.current.startListening());
+    act(() => result.current.startListening());
+
+    expect(recognizer().startCalls).toBe(1);
+  });
+
+  it('passes the latest final transcript to onSpeechEnd when the session ends', () => {
+    const onSpeechEnd = vi.fn();
+    const { result } = renderHook(() => useSpeechRecognition());
+
+    act(() => result.current.startListening(onSpeechEnd));
+    act(() => recognizer().fireStart());
+    act(() => recognizer().fireResult('Sınav ', true));
+    expect(result.current.transcript).toBe('Sınav ');
+
+    // The last result and the end arrive before React renders again
+    act(() => {
+      recognizer().fireResult('ne zaman', false);
+      recognizer().fireResult('ne zaman?', true);
+      recognizer().fireEnd();
+    });
+
+    expect(onSpeechEnd).toHaveBeenCalledTimes(1);
+    expect(onSpeechEnd).toHaveBeenCalledWith('Sınav ne zaman?');
+    expect(result.current.status).toBe('idle');
+    expect(result.current.transcript).toBe('');
+  });
+
+  it('can listen again from inside onSpeechEnd', () => {
+    const { result } = renderHook(() => useSpeechRecognition());
+    const onSpeechEnd = vi.fn(() => result.current.startListening());
+
+    act(() => result.current.startListening(onSpeechEnd));
+    act(() => {
+      recognizer().fireStart();
+      recognizer().fireResult('Merhaba', true);
+      recognizer().fireEnd();
+    });
+
+    expect(onSpeechEnd).toHaveBeenCalledWith('Merhaba');
+    expect(recognizer().startCalls).toBe(2);
+    expect(result.current.status).toBe('starting');
+  });
+
+  it('keeps a stopped utterance out of onSpeechEnd', () => {
+    const onSpeechEnd = vi.fn();
+    const { result } = renderHook(() => useSpeechRecognition());
+
+    act(() => result.current.startListening(onSpeechEnd));
+    act(() => {
+      recognizer().fireStart();
+      recognizer().fireResult('Yarım kalan', true);
+    });
+    act(() => result.current.stopListening());
+    act(() => recognizer().fireEnd());
+
+    expect(onSpeechEnd).not.toHaveBeenCalled();
+    expect(result.current.transcript).toBe('Yarım kalan');
+  });
+
+  it('stops after the silence timeout, restarting it on every result', () => {
+    vi.useFakeTimers();
+    const onSpeechEnd = vi.fn();
+    const { result } = renderHook(() => useSpeechRecognition({ silenceTimeoutMs: 1500 }));
+
+    act(() => result.current.startListening(onSpeechEnd));
+    act(() => {
+      recognizer().fireStart();
+      recognizer().fireResult('Ders', false);
+    });
+    act(() => vi.advanceTimersByTime(1000));
+    act(() => recognizer().fireResult('Ders programı', true));
+    act(() => vi.advanceTimersByTime(1499));
+
+    expect(recognizer().stopCalls).toBe(0);
+    expect(result.current.status).toBe('listening');
+
+    act(() => vi.advanceTimersByTime(1));
+    expect(recognizer().stopCalls).toBe(1);
+    expect(result.current.status).toBe('processing');
+
+    act(() => recognizer().fireEnd());
+    expect(onSpeechEnd).toHaveBeenCalledWith('Ders programı');
+  });
+
+  it('does not time out before anything was heard', () => {
+    vi.useFakeTimers();
+    const { result } = renderHook(() => useSpeechRecognition({ silenceTimeoutMs: 1500 }));
+
+    act(() => result.current.startListening());
+    act(() => recognizer().fireStart());
+    act(() => vi.advanceTimersByTime(10_000));
+
+    expect(recognizer().stopCalls).toBe(0);
+    expect(result.current.status).toBe('listening');
+  });
+
+  it.each([
+    ['not-allowed', 'not-allowed'],
+    ['service-not-allowed', 'not-allowed'],
+    ['no-speech', 'no-speech'],
+    ['audio-capture', 'audio-capture'],
+    ['network', 'network'],
+    ['language-not-supported', 'language-not-supported'],
+    ['bad-grammar', 'unknown']
+  ])('maps the browser error %s to %s and keeps it after the end', (browserError, reason) => {
+    const { result } = renderHook(() => useSpeechRecognition());
+
+    act(() => result.current.startListening());
+    act(() => {
+      recognizer().fireStart();
+      recognizer().fireError(browserError);
+    });
+    expect(result.current.status).toBe('error');
+    expect(result.current.error).toBe(reason);
+
+    act(() => recognizer().fireEnd());
+    expect(result.current.status).toBe('error');
+    expect(result.current.error).toBe(reason);
+    expect(result.current.isListening).toBe(false);
+  });
+
+  it('treats its own abort as no error', () => {
+    const { result } = renderHook(() => useSpeechRecognition());
+
+    act(() => result.current.startListening());
+    act(() => {
+      recognizer().fireStart();
+      recognizer().fireError('aborted');
+      recognizer().fireEnd();
+    });
+
+    expect(result.current.status).toBe('idle');
+    expect(result.current.error).toBeNull();
+  });
+
+  it('calls onNothingHeard after silence but not after a real failure', () => {
+    const onNothingHeard = vi.fn();
+    const { result } = renderHook(() => useSpeechRecognition());
+
+    act(() => result.current.startListening(undefined, onNothingHeard));
+    act(() => {
+      recognizer().fireError('no-speech');
+      recognizer().fireEnd();
+    });
+    expect(onNothingHeard).toHaveBeenCalledTimes(1);
+
+    act(() => result.current.startListening(undefined, onNothingHeard));
+    expect(result.current.status).toBe('starting');
+    expect(result.current.error).toBeNull();
+    act(() => {
+      recognizer().fireError('not-allowed');
+      recognizer().fireEnd();
+    });
+    expect(onNothingHeard).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports unsupported browsers without touching the engine', () => {
+    Reflect.deleteProperty(window, 'SpeechRecognition');
+    const { result } = renderHook(() => useSpeechRecognition());
+
+    expect(result.current.isSupported).toBe(false);
+    act(() => result.current.startListening());
+
+    expect(result.current.status).toBe('error');
+    expect(result.current.error).toBe('unsupported');
+    expect(FakeSpeechRecognition.instances).toHaveLength(0);
+  });
+
+  it('aborts the recognizer on unmount', () => {
+    const { result, unmount } = renderHook(() => useSpeechRecognition());
+    act(() => result.current.startListening());
+
+    unmount();
+
+    expect(recognizer().abortCalls).toBe(1);
+  });
+});
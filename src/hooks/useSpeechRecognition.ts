@@ -1,151 +1,173 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
-
-interface SpeechRecognitionEvent extends Event {
-  results: SpeechRecognitionResultList;
-  resultIndex: number;
-}
-
-interface SpeechRecognitionErrorEvent extends Event {
-  error: string;
-  message: string;
-}
-
-interface SpeechRecognition extends EventTarget {
-  continuous: boolean;
-  interimResults: boolean;
-  lang: string;
-  start(): void;
-  stop(): void;
-  abort(): void;
-  onstart: ((this: SpeechRecognition, ev: Event) => any) | null;
-  onend: ((this: SpeechRecognition, ev: Event) => any) | null;
-  onresult: ((this: SpeechRecognition, ev: SpeechRecognitionEvent) => any) | null;
-  onerror: ((this: SpeechRecognition, ev: SpeechRecognitionErrorEvent) => any) | null;
+import { useState, useEffect, useRef, useCallback, useReducer } from 'react';
+import { getConfig } from '../config';
+import {
+  createSpeechToTextEngine,
+  isSpeechToTextSupported,
+  SpeechRecognitionErrorReason,
+  SpeechToTextEngine
+} from '../speech';
+
+/**
+ * idle → starting → listening → processing → idle. `processing` covers the
+ * gap between the end of capture and the engine's final `end`, when the last
+ * text may still arrive. Any state can fall into `error`.
+ */
+export type SpeechRecognitionStatus = 'idle' | 'starting' | 'listening' | 'processing' | 'error';
+
+type RecognitionEvent =
+  | { type: 'start' }
+  | { type: 'started' }
+  | { type: 'stop' }
+  | { type: 'ended' }
+  | { type: 'failed'; reason: SpeechRecognitionErrorReason };
+
+interface RecognitionState {
+  status: SpeechRecognitionStatus;
+  error: SpeechRecognitionErrorReason | null;
 }
 
-declare global {
-  interface Window {
-    SpeechRecognition: new () => SpeechRecognition;
-    webkitSpeechRecognition: new () => SpeechRecognition;
+const transition = (state: RecognitionState, event: RecognitionEvent): RecognitionState => {
+  switch (event.type) {
+    case 'start':
+      return state.status === 'idle' || state.status === 'error'
+        ? { status: 'starting', error: null }
+        : state;
+    case 'started':
+      return state.status === 'starting' ? { status: 'listening', error: null } : state;
+    case 'stop':
+      return state.status === 'starting' || state.status === 'listening'
+        ? { ...state, status: 'processing' }
+        : state;
+    case 'ended':
+      // Keep an error visible; engines always end after reporting one
+      return state.status === 'error' ? state : { status: 'idle', error: null };
+    case 'failed':
+      return { status: 'error', error: event.reason };
   }
+};
+
+interface SpeechRecognitionOptions {
+  lang?: string;
+  /** How long a pause after speech ends the utterance. */
+  silenceTimeoutMs?: number;
 }
 
-export const useSpeechRecognition = () => {
-  const [isListening, setIsListening] = useState(false);
-  const [transcript, setTranscript] = useState('');
-  const [isSupported, setIsSupported] = useState(false);
+export const useSpeechRecognition = ({ lang = 'tr-TR', silenceTimeoutMs = 2000 }: SpeechRecognitionOptions = {}) => {
+  const [{ status, error }, dispatch] = useReducer(transition, { status: 'idle', error: null });
+  const [isSupported] = useState(() => isSpeechToTextSupported(getConfig()));
+  const [interimTranscript, setInterimTranscript] = useState('');
   const [finalTranscript, setFinalTranscript] = useState('');
-  const recognitionRef = useRef<SpeechRecognition | null>(null);
-  const silenceTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const engineRef = useRef<SpeechToTextEngine | null>(null);
   const onSpeechEndRef = useRef<((text: string) => void) | null>(null);
+  const onNothingHeardRef = useRef<(() => void) | null>(null);
+  const errorRef = useRef<SpeechRecognitionErrorReason | null>(null);
+  // Engine handlers are attached once, so they read these instead of state
+  const statusRef = useRef<SpeechRecognitionStatus>('idle');
+  const finalTranscriptRef = useRef('');
+  const langRef = useRef(lang);
+
+  statusRef.current = status;
+  langRef.current = lang;
+
+  const setFinal = useCallback((text: string) => {
+    finalTranscriptRef.current = text;
+    setFinalTranscript(text);
+  }, []);
 
   useEffect(() => {
-    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-    
-    if (SpeechRecognition) {
-      setIsSupported(true);
-      recognitionRef.current = new SpeechRecognition();
-      
-      const recognition = recognitionRef.current;
-      recognition.continuous = true;
-      recognition.interimResults = true;
-      recognition.lang = 'tr-TR';
-
-      recognition.onstart = () => {
-        setIsListening(true);
-        setTranscript('');
-        setFinalTranscript('');
-      };
-
-      recognition.onend = () => {
-        setIsListening(false);
-        // If we have final transcript when recognition ends, trigger callback
-        if (finalTranscript && onSpeechEndRef.current) {
-          onSpeechEndRef.current(finalTranscript);
-          setFinalTranscript('');
-        }
-      };
-
-      recognition.onresult = (event: SpeechRecognitionEvent) => {
-        let interimTranscript = '';
-        let currentFinalTranscript = '';
-        
-        for (let i = event.resultIndex; i < event.results.length; i++) {
-          const result = event.results[i];
-          if (result.isFinal) {
-            currentFinalTranscript += result[0].transcript;
-          } else {
-            interimTranscript += result[0].transcript;
-          }
-        }
-        
-        // Update transcripts
-        if (currentFinalTranscript) {
-          setFinalTranscript(prev => prev + currentFinalTranscript);
-        }
-        setTranscript(interimTranscript);
-
-        // Clear existing silence timer
-        if (silenceTimerRef.current) {
-          clearTimeout(silenceTimerRef.current);
+    if (!isSupported) return;
+
+    const engine = createSpeechToTextEngine(getConfig(), {
+      onStart: () => dispatch({ type: 'started' }),
+      onResult: (text, isFinal) => {
+        if (isFinal) {
+          setFinal(finalTranscriptRef.current + text);
+        } else {
+          setInterimTranscript(text);
         }
-
-        // Set new silence timer - if no speech for 2 seconds, consider speech ended
-        silenceTimerRef.current = setTimeout(() => {
-          if (recognitionRef.current && isListening) {
-            recognition.stop();
-          }
-        }, 2000);
-      };
-
-      recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
-        console.error('Speech recognition error:', event.error);
-        setIsListening(false);
-        if (silenceTimerRef.current) {
-          clearTimeout(silenceTimerRef.current);
+      },
+      onProcessing: () => {
+        statusRef.current = 'processing';
+        dispatch({ type: 'stop' });
+      },
+      onError: (reason) => {
+        errorRef.current = reason;
+        statusRef.current = 'error';
+        dispatch({ type: 'failed', reason });
+      },
+      onEnd: () => {
+        dispatch({ type: 'ended' });
+        setInterimTranscript('');
+        // Updated ahead of the render so the callbacks below can start listening again
+        if (statusRef.current !== 'error') statusRef.current = 'idle';
+
+        const text = finalTranscriptRef.current.trim();
+        const onSpeechEnd = onSpeechEndRef.current;
+        const onNothingHeard = onNothingHeardRef.current;
+        onSpeechEndRef.current = null;
+        onNothingHeardRef.current = null;
+        if (text && onSpeechEnd) {
+          setFinal('');
+          onSpeechEnd(text);
+        } else if (!text && onNothingHeard && (errorRef.current === null || errorRef.current === 'no-speech')) {
+          onNothingHeard();
         }
-      };
-    }
+      }
+    }, { silenceTimeoutMs });
+    engineRef.current = engine;
 
     return () => {
-      if (recognitionRef.current) {
-        recognitionRef.current.abort();
-      }
-      if (silenceTimerRef.current) {
-        clearTimeout(silenceTimerRef.current);
-      }
+      onSpeechEndRef.current = null;
+      onNothingHeardRef.current = null;
+      engine.abort();
+      engineRef.current = null;
     };
-  }, [isListening, finalTranscript]);
-
-  const startListening = useCallback((onSpeechEnd?: (text: string) => void) => {
-    if (recognitionRef.current && !isListening) {
-      onSpeechEndRef.current = onSpeechEnd || null;
-      setTranscript('');
-      setFinalTranscript('');
-      recognitionRef.current.start();
+  }, [isSupported, silenceTimeoutMs, setFinal]);
+
+  /**
+   * `onSpeechEnd` gets the utterance once the engine is done with it;
+   * `onNothingHeard` runs instead when the session ends in silence.
+   */
+  const startListening = useCallback((onSpeechEnd?: (text: string) => void, onNothingHeard?: () => void) => {
+    const engine = engineRef.current;
+    if (!engine) {
+      dispatch({ type: 'failed', reason: 'unsupported' });
+      return;
     }
-  }, [isListening]);
-
+    if (statusRef.current !== 'idle' && statusRef.current !== 'error') return;
+
+    onSpeechEndRef.current = onSpeechEnd || null;
+    onNothingHeardRef.current = onNothingHeard || null;
+    errorRef.current = null;
+    setFinal('');
+    setInterimTranscript('');
+    statusRef.current = 'starting';
+    dispatch({ type: 'start' });
+    engine.start(langRef.current);
+  }, [setFinal]);
+
+  // Stopping by hand cancels the utterance: it is left in `transcript` but not passed to onSpeechEnd
   const stopListening = useCallback(() => {
-    if (recognitionRef.current && isListening) {
-      recognitionRef.current.stop();
-    }
-    if (silenceTimerRef.current) {
-      clearTimeout(silenceTimerRef.current);
+    onSpeechEndRef.current = null;
+    onNothingHeardRef.current = null;
+    if (statusRef.current === 'starting' || statusRef.current === 'listening') {
+      engineRef.current?.stop();
     }
-  }, [isListening]);
+  }, []);
 
   const resetTranscript = useCallback(() => {
-    setTranscript('');
-    setFinalTranscript('');
-  }, []);
+    setFinal('');
+    setInterimTranscript('');
+  }, [setFinal]);
 
   return {
-    isListening,
-    transcript: finalTranscript + transcript,
+    status,
+    error,
+    isListening: status === 'starting' || status === 'listening',
+    transcript: finalTranscript + interimTranscript,
     isSupported,
     startListening,
     stopListening,
     resetTranscript
   };
-};
\ No newline at end of file
+};
@@ -1,100 +1,199 @@
-import { useState, useEffect, useRef } from 'react';
-
-export const useSpeechSynthesis = () => {
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { getConfig } from '../config';
+import { createTextToSpeechEngine, isTextToSpeechSupported, VoiceOption, VoiceSettings } from '../speech';
+import { toSpeakableSentences } from '../speech/speakableText';
+import { loadVoiceSettings, saveVoiceSettings } from '../voiceSettings';
+
+export interface SpeechPlayback {
+  /** The text given to `speak`, so the UI can tell which message is being read. */
+  text: string;
+  sentences: string[];
+  index: number;
+  /** Word being spoken in the current sentence, when the engine reports word boundaries. */
+  word: { start: number; length: number } | null;
+  isPaused: boolean;
+}
+
+interface SpeechQueue {
+  sentences: string[];
+  lang: string;
+  onEnd?: () => void;
+}
+
+export interface SpeakOptions {
+  /** Language of this text; defaults to the hook's `lang`. */
+  lang?: string;
+  onEnd?: () => void;
+}
+
+const sameLanguage = (a: string, b: string) =>
+  a.split('-')[0].toLowerCase() === b.split('-')[0].toLowerCase();
+
+export const useSpeechSynthesis = ({ lang = 'tr-TR' }: { lang?: string } = {}) => {
+  const [engine] = useState(() =>
+    isTextToSpeechSupported(getConfig()) ? createTextToSpeechEngine(getConfig()) : null
+  );
   const [isSpeaking, setIsSpeaking] = useState(false);
-  const [isSupported, setIsSupported] = useState(false);
-  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
-  const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
-  const onEndCallbackRef = useRef<(() => void) | null>(null);
+  const [playback, setPlayback] = useState<SpeechPlayback | null>(null);
+  const [voices, setVoices] = useState<VoiceOption[]>([]);
+  const [settings, setSettings] = useState<VoiceSettings>(loadVoiceSettings);
+  const settingsRef = useRef(settings);
+  const voicesRef = useRef(voices);
+  const queueRef = useRef<SpeechQueue | null>(null);
+  // Bumped whenever playback jumps or stops, so the sentence that was cut off doesn't advance the queue
+  const stepRef = useRef(0);
+  const pausedRef = useRef(false);
+  // Sentence to play on resume, when the previous one ended while paused
+  const pendingIndexRef = useRef<number | null>(null);
+
+  settingsRef.current = settings;
+  voicesRef.current = voices;
 
   useEffect(() => {
-    if ('speechSynthesis' in window) {
-      setIsSupported(true);
-      
-      const loadVoices = () => {
-        const availableVoices = speechSynthesis.getVoices();
-        setVoices(availableVoices);
-      };
-
-      loadVoices();
-      speechSynthesis.onvoiceschanged = loadVoices;
-    }
-  }, []);
-
-  const speak = (text: string, onEnd?: () => void) => {
-    if (!isSupported || !text.trim()) return;
-
-    // Store the callback
-    onEndCallbackRef.current = onEnd || null;
-
-    // Stop any current speech
-    speechSynthesis.cancel();
-
-    const utterance = new SpeechSynthesisUtterance(text);
-    utteranceRef.current = utterance;
-
-    // Try to find a Turkish voice, fallback to default
-    const turkishVoice = voices.find(voice => 
-      voice.lang.startsWith('tr') || voice.name.toLowerCase().includes('turkish')
-    );
-    
-    if (turkishVoice) {
-      utterance.voice = turkishVoice;
-    }
-
-    utterance.lang = 'tr-TR';
-    utterance.rate = 0.9;
-    utterance.pitch = 1;
-    utterance.volume = 1;
-
-    utterance.onstart = () => {
-      setIsSpeaking(true);
-    };
+    if (!engine) return;
 
-    utterance.onend = () => {
-      setIsSpeaking(false);
-      // Call the callback if provided
-      if (onEndCallbackRef.current) {
-        onEndCallbackRef.current();
-        onEndCallbackRef.current = null;
-      }
+    let cancelled = false;
+    const refreshVoices = () => {
+      engine.getVoices().then(list => {
+        if (!cancelled) setVoices(list);
+      });
     };
 
-    utterance.onerror = (event) => {
-      console.error('Speech synthesis error:', event.error);
-      setIsSpeaking(false);
-      // Call the callback even on error
-      if (onEndCallbackRef.current) {
-        onEndCallbackRef.current();
-        onEndCallbackRef.current = null;
-      }
+    refreshVoices();
+    const unsubscribe = engine.onVoicesChanged(refreshVoices);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      engine.stop();
     };
-
-    speechSynthesis.speak(utterance);
-  };
-
-  const stop = () => {
-    speechSynthesis.cancel();
+  }, [engine]);
+
+  const finish = useCallback(() => {
+    const onEnd = queueRef.current?.onEnd;
+    queueRef.current = null;
+    pausedRef.current = false;
+    pendingIndexRef.current = null;
+    setPlayback(null);
     setIsSpeaking(false);
-    // Clear any pending callback
-    onEndCallbackRef.current = null;
-  };
+    onEnd?.();
+  }, []);
 
-  const pause = () => {
-    speechSynthesis.pause();
-  };
+  const playSentence = useCallback(function play(index: number) {
+    const queue = queueRef.current;
+    if (!engine || !queue) return;
+    if (index >= queue.sentences.length) {
+      finish();
+      return;
+    }
+    if (pausedRef.current) {
+      pendingIndexRef.current = index;
+      return;
+    }
 
-  const resume = () => {
-    speechSynthesis.resume();
-  };
+    const step = ++stepRef.current;
+    setPlayback(prev => prev && { ...prev, index, word: null });
+
+    // The saved voice only fits text in its own language; otherwise let the engine pick one
+    const current = settingsRef.current;
+    const voice = voicesRef.current.find(option => option.id === current.voiceId);
+    const voiceId = voice?.lang && !sameLanguage(voice.lang, queue.lang) ? null : current.voiceId;
+
+    engine
+      .speak({ text: queue.sentences[index], lang: queue.lang, ...current, voiceId }, {
+        onStart: () => {
+          if (step === stepRef.current) setIsSpeaking(true);
+        },
+        onBoundary: (start, length) => {
+          if (step === stepRef.current) setPlayback(prev => prev && { ...prev, word: { start, length } });
+        }
+      })
+      .then(() => {
+        if (step === stepRef.current) play(index + 1);
+      })
+      .catch(error => {
+        console.error('Speech synthesis error:', error);
+        // Still report the end, so voice mode keeps going
+        if (step === stepRef.current) finish();
+      });
+  }, [engine, finish]);
+
+  const speak = useCallback((text: string, { lang: textLang = lang, onEnd }: SpeakOptions = {}) => {
+    const sentences = toSpeakableSentences(text);
+    if (!engine || sentences.length === 0) return;
+
+    stepRef.current++;
+    engine.stop();
+    engine.resume();
+    queueRef.current = { sentences, lang: textLang, onEnd };
+    pausedRef.current = false;
+    pendingIndexRef.current = null;
+    setPlayback({ text, sentences, index: 0, word: null, isPaused: false });
+    playSentence(0);
+  }, [engine, lang, playSentence]);
+
+  const stop = useCallback(() => {
+    stepRef.current++;
+    queueRef.current = null;
+    pausedRef.current = false;
+    pendingIndexRef.current = null;
+    engine?.stop();
+    engine?.resume();
+    setPlayback(null);
+    setIsSpeaking(false);
+  }, [engine]);
+
+  const pause = useCallback(() => {
+    if (!queueRef.current || pausedRef.current) return;
+    pausedRef.current = true;
+    engine?.pause();
+    setPlayback(prev => prev && { ...prev, isPaused: true });
+  }, [engine]);
+
+  const resume = useCallback(() => {
+    if (!pausedRef.current) return;
+    pausedRef.current = false;
+    engine?.resume();
+    setPlayback(prev => prev && { ...prev, isPaused: false });
+
+    const pending = pendingIndexRef.current;
+    pendingIndexRef.current = null;
+    if (pending !== null) playSentence(pending);
+  }, [engine, playSentence]);
+
+  /** Jumps to a sentence of the current playback; unpauses it. */
+  const seek = useCallback((index: number) => {
+    const queue = queueRef.current;
+    if (!engine || !queue) return;
+
+    stepRef.current++;
+    engine.stop();
+    engine.resume();
+    pausedRef.current = false;
+    pendingIndexRef.current = null;
+    setPlayback(prev => prev && { ...prev, isPaused: false });
+    playSentence(Math.min(Math.max(index, 0), queue.sentences.length - 1));
+  }, [engine, playSentence]);
+
+  const updateSettings = useCallback((changes: Partial<VoiceSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...changes };
+      saveVoiceSettings(next);
+      return next;
+    });
+  }, []);
 
   return {
     speak,
     stop,
     pause,
     resume,
+    seek,
     isSpeaking,
-    isSupported,
-    voices
+    playback,
+    isSupported: engine !== null,
+    voices,
+    settings,
+    updateSettings,
+    unsupportedSettings: engine?.unsupportedSettings ?? []
   };
-};
\ No newline at end of file
+};
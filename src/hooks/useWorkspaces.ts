@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { Workspace } from '../types';
+import { getConfig } from '../config';
+import { listWorkspaces } from '../api';
+
+/**
+ * The workspaces the picker offers, fetched once. Until the list arrives, or
+ * if it can't be fetched, only the configured workspace is offered.
+ */
+export const useWorkspaces = () => {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(() => {
+    const { workspaces: configured, workspaceSlug } = getConfig();
+    return configured.length > 0 ? configured : [{ slug: workspaceSlug, name: workspaceSlug }];
+  });
+
+  useEffect(() => {
+    const abortController = new AbortController();
+
+    listWorkspaces(abortController.signal)
+      .then(list => {
+        if (list.length > 0) setWorkspaces(list);
+      })
+      .catch(error => {
+        if (abortController.signal.aborted) return;
+        console.warn('Çalışma alanı listesi alınamadı:', error);
+      });
+
+    return () => abortController.abort();
+  }, []);
+
+  return workspaces;
+};
@@ -0,0 +1,86 @@
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Formats the subset of ICU MessageFormat the catalogs use: `{name}`
+ * placeholders and `{count, plural, =0 {...} one {...} other {...}}`, where
+ * `#` inside a branch stands for the formatted number. Categories come from
+ * `Intl.PluralRules`, so Arabic gets its zero/one/two/few/many forms.
+ */
+export const formatMessage = (message: string, params: MessageParams, locale: string): string => {
+  let pos = 0;
+
+  const fail = (reason: string): never => {
+    throw new SyntaxError(`${reason} at ${pos} in "${message}"`);
+  };
+
+  const skipSpaces = () => {
+    while (/\s/.test(message[pos] ?? '')) pos++;
+  };
+
+  const readWord = () => {
+    skipSpaces();
+    const start = pos;
+    while (pos < message.length && !/[\s,{}]/.test(message[pos])) pos++;
+    return message.slice(start, pos);
+  };
+
+  const expect = (char: string) => {
+    skipSpaces();
+    if (message[pos] !== char) fail(`Expected "${char}"`);
+    pos++;
+  };
+
+  // Text up to the closing brace of the enclosing branch, or the end
+  const readText = (count?: number): string => {
+    let text = '';
+    while (pos < message.length && message[pos] !== '}') {
+      const char = message[pos];
+      if (char === '{') {
+        pos++;
+        text += readArgument();
+      } else if (char === '#' && count !== undefined) {
+        pos++;
+        text += new Intl.NumberFormat(locale).format(count);
+      } else {
+        pos++;
+        text += char;
+      }
+    }
+    return text;
+  };
+
+  const readArgument = (): string => {
+    const name = readWord();
+    skipSpaces();
+    if (message[pos] === '}') {
+      pos++;
+      return name in params ? String(params[name]) : `{${name}}`;
+    }
+
+    expect(',');
+    const type = readWord();
+    if (type !== 'plural') fail(`Unsupported argument type "${type}"`);
+    expect(',');
+
+    const count = Number(params[name]);
+    const category = new Intl.PluralRules(locale).select(count);
+    const branches: Record<string, string> = {};
+
+    skipSpaces();
+    while (message[pos] !== '}') {
+      if (pos >= message.length) fail('Unclosed plural');
+      const selector = readWord();
+      expect('{');
+      branches[selector] = readText(count);
+      expect('}');
+      skipSpaces();
+    }
+    pos++;
+
+    return branches[`=${count}`] ?? branches[category] ?? branches.other ?? fail('Plural without "other"');
+  };
+
+  const text = readText();
+  if (pos < message.length) fail('Unexpected "}"');
+  return text;
+};
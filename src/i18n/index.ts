@@ -0,0 +1,25 @@
+import { Language } from '../languages';
+import { formatMessage, MessageParams } from './format';
+import tr from './locales/tr.json';
+import en from './locales/en.json';
+import ar from './locales/ar.json';
+
+export type { MessageParams };
+
+/** Turkish is the reference catalog: its keys are the ones every locale must have. */
+export type MessageKey = keyof typeof tr;
+
+export type Messages = Record<MessageKey, string>;
+
+const CATALOGS: Record<Language, Messages> = { tr, en, ar };
+
+/** Looks a UI string up and formats it for the language. */
+export const translate = (language: Language, key: MessageKey, params: MessageParams = {}): string => {
+  const message = CATALOGS[language][key] ?? CATALOGS.tr[key];
+  try {
+    return formatMessage(message, params, language);
+  } catch (error) {
+    console.error(`"${key}" (${language}) biçimlendirilemedi:`, error);
+    return message;
+  }
+};
@@ -0,0 +1,68 @@
+export type Language = 'tr' | 'en' | 'ar';
+
+export interface LanguageInfo {
+  /** Name of the language in itself, as shown in the picker. */
+  label: string;
+  /** BCP 47 tag handed to speech recognition and synthesis. */
+  speechLang: string;
+  dir: 'ltr' | 'rtl';
+}
+
+export const LANGUAGES: Record<Language, LanguageInfo> = {
+  tr: { label: 'Türkçe', speechLang: 'tr-TR', dir: 'ltr' },
+  en: { label: 'English', speechLang: 'en-US', dir: 'ltr' },
+  ar: { label: 'العربية', speechLang: 'ar-SA', dir: 'rtl' }
+};
+
+export const DEFAULT_LANGUAGE: Language = 'tr';
+
+const LANGUAGE_KEY = 'okul-asistani:language';
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LANGUAGES, value);
+
+export const loadLanguage = (): Language => {
+  try {
+    const stored = localStorage.getItem(LANGUAGE_KEY);
+    return isLanguage(stored) ? stored : DEFAULT_LANGUAGE;
+  } catch {
+    return DEFAULT_LANGUAGE;
+  }
+};
+
+export const saveLanguage = (language: Language) => {
+  try {
+    localStorage.setItem(LANGUAGE_KEY, language);
+  } catch {
+    // Storage can be blocked; the choice then lasts for this tab only
+  }
+};
+
+// Short, frequent words that tell Turkish and English apart in a few lines
+const TURKISH_WORDS = new Set(['ve', 'bir', 'bu', 'için', 'ile', 'da', 'de', 'ne', 'mi', 'çok', 'daha', 'olan', 'gibi', 'var', 'yok', 'ama', 'sonra', 'nasıl', 'değil', 'her']);
+const ENGLISH_WORDS = new Set(['the', 'and', 'is', 'are', 'of', 'to', 'in', 'for', 'with', 'what', 'how', 'this', 'that', 'you', 'it', 'not', 'be', 'can', 'on', 'your']);
+// Lower-cased "İ" leaves a combining dot behind
+const TURKISH_LETTERS = /[çğıöşü]|\u0307/;
+
+/**
+ * Guesses which of the supported languages a reply is written in, from its
+ * script and a handful of common words. Returns null when the text is too
+ * short or mixed to tell.
+ */
+export const detectLanguage = (text: string): Language | null => {
+  const arabic = text.match(/\p{Script=Arabic}/gu)?.length ?? 0;
+  const latin = text.match(/\p{Script=Latin}/gu)?.length ?? 0;
+  if (arabic + latin < 3) return null;
+  if (arabic > latin) return 'ar';
+
+  let turkish = 0;
+  let english = 0;
+  for (const word of text.toLowerCase().split(/[^\p{L}\p{M}]+/u)) {
+    if (TURKISH_WORDS.has(word)) turkish++;
+    else if (TURKISH_LETTERS.test(word)) turkish += 0.5;
+    if (ENGLISH_WORDS.has(word)) english++;
+  }
+
+  if (turkish === english) return null;
+  return turkish > english ? 'tr' : 'en';
+};
@@ -0,0 +1,80 @@
+import { ChatMessage, Conversation } from './types';
+
+/**
+ * Gives messages saved before branching existed a parent: the message before
+ * them, since the list was the transcript then.
+ */
+export const linkMessages = (messages: ChatMessage[]): ChatMessage[] =>
+  messages.map((message, index) =>
+    message.parentId !== undefined ? message : { ...message, parentId: index > 0 ? messages[index - 1].id : null }
+  );
+
+/** The transcript of one branch: from the first message down to `leafId`. */
+export const getActivePath = (messages: ChatMessage[], leafId?: string): ChatMessage[] => {
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const path: ChatMessage[] = [];
+  let current: ChatMessage | undefined = (leafId && byId.get(leafId)) || messages[messages.length - 1];
+
+  // The length check stops a damaged, cyclic tree from looping forever
+  while (current && path.length < messages.length) {
+    path.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path.reverse();
+};
+
+/** The alternatives to `message` at its point in the conversation, itself included. */
+export const getSiblings = (messages: ChatMessage[], message: ChatMessage): ChatMessage[] =>
+  messages.filter(m => (m.parentId ?? null) === (message.parentId ?? null));
+
+/** Follows the newest child from `id` down to the end of that branch. */
+export const getLatestLeaf = (messages: ChatMessage[], id: string): string => {
+  let leafId = id;
+  for (let depth = 0; depth < messages.length; depth++) {
+    const children = messages.filter(m => m.parentId === leafId);
+    if (children.length === 0) break;
+    leafId = children[children.length - 1].id;
+  }
+  return leafId;
+};
+
+/** Adds a message at the end of the branch on screen and moves the branch along to it. */
+export const appendToBranch = (
+  conversation: Conversation,
+  message: ChatMessage
+): Pick<Conversation, 'messages' | 'activeLeafId'> => {
+  const path = getActivePath(conversation.messages, conversation.activeLeafId);
+  return {
+    messages: [...conversation.messages, { ...message, parentId: path[path.length - 1]?.id ?? null }],
+    activeLeafId: message.id
+  };
+};
+
+/**
+ * Adds or updates the reply to `userMessageId`. A new reply hangs right under
+ * the question; a message queued offline may already have a follow-up there,
+ * which moves below the reply so the transcript still alternates.
+ */
+export const placeReply = (
+  conversation: Conversation,
+  userMessageId: string,
+  replyId: string,
+  update: (reply: ChatMessage) => ChatMessage
+): Pick<Conversation, 'messages' | 'activeLeafId'> => {
+  const { messages, activeLeafId } = conversation;
+
+  if (messages.some(m => m.id === replyId)) {
+    return { messages: messages.map(m => m.id === replyId ? update(m) : m), activeLeafId };
+  }
+
+  const reply = update({ id: replyId, parentId: userMessageId, type: 'bot', message: '', timestamp: new Date() });
+  return {
+    messages: [
+      ...messages.map(m => (m.parentId === userMessageId && m.type === 'user' ? { ...m, parentId: replyId } : m)),
+      reply
+    ],
+    // Follow the reply unless the user has moved on to something else meanwhile
+    activeLeafId: activeLeafId === userMessageId ? replyId : activeLeafId
+  };
+};
@@ -0,0 +1,43 @@
+import type { Worker as TesseractWorker } from 'tesseract.js';
+
+// Served from public/ocr by scripts/copy-ocr-assets.js, so nothing is fetched from a CDN
+const assetUrl = (name: string) => new URL(`${import.meta.env.BASE_URL}ocr/${name}`, window.location.href).href;
+
+let workerPromise: Promise<TesseractWorker> | null = null;
+let reportProgress: ((progress: number) => void) | undefined;
+
+const getWorker = () => {
+  if (!workerPromise) {
+    workerPromise = import('tesseract.js').then(({ createWorker, OEM }) =>
+      createWorker('tur', OEM.LSTM_ONLY, {
+        workerPath: assetUrl('worker.min.js'),
+        corePath: assetUrl(''),
+        langPath: assetUrl(''),
+        gzip: true,
+        logger: message => {
+          if (message.status === 'recognizing text') reportProgress?.(message.progress);
+        }
+      })
+    );
+    workerPromise.catch(() => {
+      workerPromise = null;
+    });
+  }
+  return workerPromise;
+};
+
+/**
+ * Reads the Turkish text in a photo on this device. The OCR worker and its
+ * language data are loaded on first use and kept for later photos.
+ * `onProgress` receives values from 0 to 1 while the text is recognised.
+ */
+export const recognizeText = async (image: Blob, onProgress?: (progress: number) => void): Promise<string> => {
+  const worker = await getWorker();
+  reportProgress = onProgress;
+  try {
+    const { data } = await worker.recognize(image);
+    return data.text.trim();
+  } finally {
+    reportProgress = undefined;
+  }
+};
@@ -0,0 +1,15 @@
+import { AppConfig } from '../config';
+import { ChatProvider } from './types';
+import { createWorkspaceProvider } from './workspace';
+import { createOpenAiProvider } from './openai';
+
+export type { ChatProvider, ChatRequest, ChatTurn } from './types';
+
+export const createChatProvider = (config: AppConfig): ChatProvider => {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAiProvider(config);
+    case 'workspace':
+      return createWorkspaceProvider(config);
+  }
+};
@@ -0,0 +1,156 @@
+import { ApiResponse, ChatAttachment } from '../types';
+import { AppConfig } from '../config';
+import { ChatApiError, createResponseError } from '../errors';
+import { ChatProvider, ChatRequest } from './types';
+import { readServerSentEvents } from './sse';
+
+type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface CompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ContentPart[];
+}
+
+interface CompletionResponse {
+  id?: string;
+  choices?: { message?: { content?: string | null } }[];
+}
+
+interface CompletionChunk {
+  id?: string;
+  choices?: { delta?: { content?: string | null } }[];
+}
+
+const SYSTEM_PROMPT = 'Sen Turgut Özal KAİHL için bir okul asistanısın. Yanıtlarını öğrencilerin anlayacağı açıklıkta, sorunun dilinde ver.';
+
+const toContent = (message: string, attachments?: ChatAttachment[]): CompletionMessage['content'] => {
+  const images = (attachments ?? []).filter(a => a.mime.startsWith('image/'));
+  if (images.length === 0) return message;
+
+  return [
+    { type: 'text', text: message },
+    ...images.map(image => ({ type: 'image_url' as const, image_url: { url: image.contentString } }))
+  ];
+};
+
+const toApiResponse = (id: string, textResponse: string): ApiResponse => ({
+  id,
+  type: 'textResponse',
+  textResponse,
+  sources: [],
+  close: true,
+  error: null
+});
+
+/**
+ * Talks to any server implementing OpenAI's `/v1/chat/completions`. Those
+ * servers are stateless, so chat-mode history is kept here per session; query
+ * mode sends each question on its own, like the workspace API does.
+ */
+export const createOpenAiProvider = (config: AppConfig): ChatProvider => {
+  const completionsUrl = `${config.baseUrl}/v1/chat/completions`;
+  const histories = new Map<string, CompletionMessage[]>();
+
+  const buildMessages = ({ message, mode, sessionId, attachments }: ChatRequest): CompletionMessage[] => {
+    const history = mode === 'chat' ? histories.get(sessionId) ?? [] : [];
+    return [
+      { role: 'system', content: SYSTEM_PROMPT },
+      ...history,
+      { role: 'user', content: toContent(message, attachments) }
+    ];
+  };
+
+  const remember = ({ message, mode, sessionId }: ChatRequest, reply: string) => {
+    if (mode !== 'chat') return;
+    histories.set(sessionId, [
+      ...(histories.get(sessionId) ?? []),
+      { role: 'user', content: message },
+      { role: 'assistant', content: reply }
+    ]);
+  };
+
+  const post = async (request: ChatRequest, stream: boolean) => {
+    const response = await fetch(completionsUrl, {
+      method: 'POST',
+      signal: request.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'accept': stream ? 'text/event-stream' : 'application/json'
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages: buildMessages(request),
+        stream
+      })
+    });
+
+    if (!response.ok) {
+      throw await createResponseError(response);
+    }
+
+    return response;
+  };
+
+  return {
+    replay(sessionId, turns) {
+      histories.set(sessionId, turns);
+    },
+
+    async send(request) {
+      if (request.reset) {
+        histories.delete(request.sessionId);
+        return toApiResponse('', '');
+      }
+
+      const response = await post(request, false);
+      let data: CompletionResponse;
+      try {
+        data = await response.json();
+      } catch (error) {
+        throw new ChatApiError('invalid-response', 'Invalid response from server', { details: error });
+      }
+      const content = data.choices?.[0]?.message?.content;
+
+      if (typeof content !== 'string') {
+        throw new ChatApiError('invalid-response', 'Invalid response from server', { details: data });
+      }
+
+      remember(request, content);
+      return toApiResponse(data.id ?? '', content);
+    },
+
+    async stream(request, onChunk) {
+      const response = await post(request, true);
+
+      if (!response.body) {
+        throw new ChatApiError('invalid-response', 'Server does not support streaming');
+      }
+
+      let id = '';
+      let textResponse = '';
+
+      await readServerSentEvents(response.body, (data) => {
+        if (data === '[DONE]') return true;
+
+        let chunk: CompletionChunk;
+        try {
+          chunk = JSON.parse(data);
+        } catch {
+          throw new ChatApiError('invalid-response', 'Invalid stream chunk from server', { details: data });
+        }
+
+        id = chunk.id ?? id;
+        const token = chunk.choices?.[0]?.delta?.content;
+        if (token) {
+          textResponse += token;
+          onChunk({ ...toApiResponse(id, token), type: 'textResponseChunk', close: false });
+        }
+      });
+
+      remember(request, textResponse);
+      return toApiResponse(id, textResponse);
+    }
+  };
+};
@@ -0,0 +1,35 @@
+/**
+ * Reads a `text/event-stream` body and hands the `data:` payload of every
+ * event to `onEvent`. Returning `true` from `onEvent` stops reading early.
+ */
+export const readServerSentEvents = async (
+  body: ReadableStream<Uint8Array>,
+  onEvent: (data: string) => boolean | void
+): Promise<void> => {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += value;
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() ?? '';
+
+      for (const block of blocks) {
+        const data = block
+          .split(/\r?\n/)
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trimStart())
+          .join('\n');
+
+        // Comments and keep-alive events carry no data
+        if (data && onEvent(data)) return;
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+};
@@ -0,0 +1,33 @@
+import { ApiResponse, ChatAttachment, ChatMode, Workspace } from '../types';
+
+/** One side of an earlier exchange, as the model saw it. */
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  message: string;
+  mode: ChatMode;
+  sessionId: string;
+  /** Slug of the workspace to ask; providers without workspaces ignore it. */
+  workspace: string;
+  attachments?: ChatAttachment[];
+  reset?: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * A chat backend. Implementations translate our request into their protocol
+ * and map whatever comes back into `ApiResponse`/`Source`, so the UI never
+ * sees provider-specific shapes.
+ */
+export interface ChatProvider {
+  send(request: ChatRequest): Promise<ApiResponse>;
+  /** Calls `onChunk` with each text fragment and resolves with the full reply. */
+  stream(request: ChatRequest, onChunk: (chunk: ApiResponse) => void): Promise<ApiResponse>;
+  /** Makes a new chat-mode session carry on from `turns`, as if they had been sent in it. */
+  replay(sessionId: string, turns: ChatTurn[]): void;
+  /** The workspaces the backend offers; left out by providers that have none. */
+  listWorkspaces?(signal?: AbortSignal): Promise<Workspace[]>;
+}
@@ -0,0 +1,181 @@
+import { ApiResponse, ChatAttachment, ChatMode } from '../types';
+import { AppConfig } from '../config';
+import { ChatApiError, createResponseError } from '../errors';
+import { parseApiResponse, parseWorkspaceList } from '../validation';
+import { ChatProvider, ChatRequest, ChatTurn } from './types';
+import { readServerSentEvents } from './sse';
+
+interface WorkspaceRequestBody {
+  message: string;
+  mode: ChatMode;
+  sessionId: string;
+  reset: boolean;
+  attachments?: ChatAttachment[];
+}
+
+const buildRequestBody = ({ message, mode, sessionId, attachments, reset = false }: ChatRequest): WorkspaceRequestBody => {
+  const requestBody: WorkspaceRequestBody = {
+    message,
+    mode,
+    sessionId,
+    reset
+  };
+
+  // Only add attachments if they exist and have content
+  if (attachments && attachments.length > 0) {
+    requestBody.attachments = attachments;
+  }
+
+  return requestBody;
+};
+
+const formatTranscript = (turns: ChatTurn[]) =>
+  [
+    'Önceki konuşma:',
+    ...turns.map(turn => `${turn.role === 'user' ? 'Kullanıcı' : 'Asistan'}: ${turn.content}`),
+    '',
+    'Yeni mesaj:'
+  ].join('\n');
+
+const parseChunk = (data: string): ApiResponse => {
+  let chunk: unknown;
+  try {
+    chunk = JSON.parse(data);
+  } catch {
+    throw new ChatApiError('invalid-response', 'Invalid stream chunk from server', { details: data });
+  }
+  return parseApiResponse(chunk);
+};
+
+/**
+ * Talks to the workspace chat API (`/api/v1/workspace/:slug/chat` and
+ * `stream-chat`). Its responses already have the `ApiResponse` shape but are
+ * still checked at runtime, since the server is not under our control.
+ */
+export const createWorkspaceProvider = (config: AppConfig): ChatProvider => {
+  const workspaceUrl = (slug: string) => `${config.baseUrl}/api/v1/workspace/${encodeURIComponent(slug)}`;
+  // The workspace API can't be given history on its own, so replayed turns
+  // go along with the first chat-mode message of their session
+  const pendingReplays = new Map<string, ChatTurn[]>();
+
+  const withReplay = (request: ChatRequest): ChatRequest => {
+    const turns = pendingReplays.get(request.sessionId);
+    if (!turns || request.mode !== 'chat' || request.reset) return request;
+    return { ...request, message: `${formatTranscript(turns)}\n${request.message}` };
+  };
+
+  const replayDelivered = (request: ChatRequest) => {
+    if (request.mode === 'chat') pendingReplays.delete(request.sessionId);
+  };
+
+  return {
+    replay(sessionId, turns) {
+      if (turns.length > 0) pendingReplays.set(sessionId, turns);
+    },
+
+    async listWorkspaces(signal) {
+      const response = await fetch(`${config.baseUrl}/api/v1/workspaces`, {
+        signal,
+        headers: { 'accept': 'application/json' }
+      });
+
+      if (!response.ok) {
+        throw await createResponseError(response);
+      }
+
+      let body: unknown;
+      try {
+        body = await response.json();
+      } catch (error) {
+        throw new ChatApiError('invalid-response', 'Invalid response from server', { details: error });
+      }
+      return parseWorkspaceList(body);
+    },
+
+    async send(request) {
+      const response = await fetch(`${workspaceUrl(request.workspace)}/chat`, {
+        method: 'POST',
+        signal: request.signal,
+        headers: {
+          'Content-Type': 'application/json',
+          'accept': 'application/json'
+        },
+        body: JSON.stringify(buildRequestBody(withReplay(request)))
+      });
+
+      if (!response.ok) {
+        throw await createResponseError(response);
+      }
+
+      let body: unknown;
+      try {
+        body = await response.json();
+      } catch (error) {
+        throw new ChatApiError('invalid-response', 'Invalid response from server', { details: error });
+      }
+
+      const data = parseApiResponse(body);
+      if (data.error) {
+        throw new ChatApiError('server', data.error, { status: response.status, details: data });
+      }
+
+      replayDelivered(request);
+      return data;
+    },
+
+    async stream(request, onChunk) {
+      const response = await fetch(`${workspaceUrl(request.workspace)}/stream-chat`, {
+        method: 'POST',
+        signal: request.signal,
+        headers: {
+          'Content-Type': 'application/json',
+          'accept': 'text/event-stream'
+        },
+        body: JSON.stringify(buildRequestBody(withReplay({ ...request, reset: false })))
+      });
+
+      if (!response.ok) {
+        throw await createResponseError(response);
+      }
+
+      if (!response.body) {
+        throw new ChatApiError('invalid-response', 'Server does not support streaming');
+      }
+
+      const result: ApiResponse = {
+        id: '',
+        type: 'textResponse',
+        textResponse: '',
+        sources: [],
+        close: false,
+        error: null
+      };
+
+      await readServerSentEvents(response.body, (data) => {
+        const chunk = parseChunk(data);
+
+        if (chunk.type === 'abort' || chunk.error) {
+          throw new ChatApiError('server', chunk.error ?? 'Response aborted by server', { details: chunk });
+        }
+
+        result.id = chunk.id || result.id;
+        if (chunk.sources && chunk.sources.length > 0) {
+          result.sources = chunk.sources;
+        }
+
+        if (chunk.type === 'textResponseChunk' || chunk.type === 'textResponse') {
+          result.textResponse += chunk.textResponse;
+          onChunk(chunk);
+        }
+
+        if (chunk.close) {
+          result.close = true;
+        }
+        return result.close;
+      });
+
+      replayDelivered(request);
+      return result;
+    }
+  };
+};
@@ -0,0 +1,43 @@
+import { Source } from './types';
+import { toWords } from './citations';
+
+export type Relevance = 'high' | 'medium' | 'low';
+
+// Vector databases that report similarity usually put chunks worth quoting
+// above 0.6 and drop anything under their own threshold (around 0.25)
+const HIGH_SCORE = 0.6;
+const MEDIUM_SCORE = 0.4;
+
+/** Share of the answer's content words that also appear in the chunk. */
+const wordCoverage = (answerWords: Set<string>, chunk: string) => {
+  if (answerWords.size === 0) return 0;
+  const chunkWords = new Set(toWords(chunk));
+  let hits = 0;
+  answerWords.forEach(word => {
+    if (chunkWords.has(word)) hits++;
+  });
+  return hits / answerWords.size;
+};
+
+/**
+ * Scores how well the returned chunks back up an answer, from 0 to 1: the
+ * best similarity the vector database reported, or, for sources that come
+ * without one, how much of the answer's wording the chunk shares.
+ */
+export const scoreSources = (answer: string, sources: Source[]) => {
+  const answerWords = new Set(toWords(answer));
+  return sources.reduce(
+    (best, source) => Math.max(best, source.score ?? wordCoverage(answerWords, source.chunk)),
+    0
+  );
+};
+
+/** Buckets the score for display; null when the answer came without sources. */
+export const rateRelevance = (answer: string, sources: Source[]): Relevance | null => {
+  if (sources.length === 0) return null;
+
+  const score = scoreSources(answer, sources);
+  if (score >= HIGH_SCORE) return 'high';
+  if (score >= MEDIUM_SCORE) return 'medium';
+  return 'low';
+};
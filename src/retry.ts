@@ -0,0 +1,72 @@
+import { ChatApiError, ChatAbortedError } from './errors';
+
+export interface RetryOptions {
+  /** Retries after the first attempt. */
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ChatAbortedError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ChatAbortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Exponential backoff with full jitter: each wait is a random time between
+ * zero and the doubled ceiling, so a classroom of clients that lost Wi-Fi
+ * together doesn't hit the server together when it comes back.
+ */
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number) =>
+  Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+
+export const retryWithBackoff = async <T>(
+  run: (attempt: number) => Promise<T>,
+  {
+    retries = 3,
+    baseDelayMs = 1000,
+    maxDelayMs = 10_000,
+    signal,
+    shouldRetry = () => true,
+    onRetry
+  }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run(attempt);
+    } catch (error) {
+      if (attempt >= retries || !shouldRetry(error, attempt)) {
+        throw error;
+      }
+
+      // A server-requested wait wins over our own schedule; if it is longer
+      // than we are willing to wait, hand the error to the caller instead
+      const retryAfterMs = error instanceof ChatApiError && error.retryAfterSeconds !== undefined
+        ? error.retryAfterSeconds * 1000
+        : undefined;
+      if (retryAfterMs !== undefined && retryAfterMs > maxDelayMs) {
+        throw error;
+      }
+
+      const delayMs = retryAfterMs ?? backoffDelay(attempt, baseDelayMs, maxDelayMs);
+      onRetry?.(error, attempt + 1, delayMs);
+      await wait(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,30 @@
+const CLIENT_ID_KEY = 'okul-asistani:client-id';
+
+let clientId: string | null = null;
+
+/**
+ * Returns an ID that stays the same for this browser across reloads, so the
+ * server keeps one chat memory per person instead of one for everybody.
+ */
+export const getClientId = (): string => {
+  if (clientId) return clientId;
+
+  try {
+    clientId = localStorage.getItem(CLIENT_ID_KEY);
+    if (!clientId) {
+      clientId = crypto.randomUUID();
+      localStorage.setItem(CLIENT_ID_KEY, clientId);
+    }
+  } catch {
+    // Storage can be blocked (private mode, kiosk policies); keep the ID for this tab only
+    clientId = clientId ?? crypto.randomUUID();
+  }
+
+  return clientId;
+};
+
+/**
+ * Creates a fresh server-side session for this client. Called for every new
+ * conversation and again whenever a conversation is reset.
+ */
+export const createSessionId = (): string => `${getClientId()}:${crypto.randomUUID()}`;
@@ -0,0 +1,119 @@
+import { SpeakRequest, TextToSpeechEngine, VoiceOption } from './types';
+
+export const isBrowserSynthesisSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+const toVoiceOption = (voice: SpeechSynthesisVoice): VoiceOption => ({
+  id: voice.voiceURI,
+  name: voice.name,
+  lang: voice.lang,
+  remote: !voice.localService
+});
+
+// Chrome often reports nothing until `voiceschanged` has fired once
+const loadVoices = () =>
+  new Promise<SpeechSynthesisVoice[]>(resolve => {
+    const voices = speechSynthesis.getVoices();
+    if (voices.length > 0) {
+      resolve(voices);
+      return;
+    }
+
+    const handleChange = () => {
+      clearTimeout(timeout);
+      resolve(speechSynthesis.getVoices());
+    };
+    const timeout = setTimeout(() => {
+      speechSynthesis.removeEventListener('voiceschanged', handleChange);
+      resolve([]);
+    }, 1000);
+    speechSynthesis.addEventListener('voiceschanged', handleChange, { once: true });
+  });
+
+const pickVoice = (voices: SpeechSynthesisVoice[], { voiceId, lang }: SpeakRequest) => {
+  const chosen = voiceId ? voices.find(voice => voice.voiceURI === voiceId) : undefined;
+  if (chosen) return chosen;
+
+  const language = lang.split('-')[0].toLowerCase();
+  const matching = voices.filter(voice => voice.lang.toLowerCase().startsWith(language));
+  // Installed voices keep working offline and start faster
+  return matching.find(voice => voice.localService) ?? matching[0];
+};
+
+/** The browser's own `speechSynthesis`; voice quality depends on the operating system. */
+export const createBrowserSynthesisEngine = (): TextToSpeechEngine => {
+  let finishCurrent: (() => void) | null = null;
+  // Bumped by stop(), so a speak() still waiting for voices doesn't start afterwards
+  let generation = 0;
+
+  const stop = () => {
+    generation++;
+    finishCurrent?.();
+    speechSynthesis.cancel();
+  };
+
+  return {
+    unsupportedSettings: [],
+
+    async getVoices() {
+      return (await loadVoices()).map(toVoiceOption);
+    },
+
+    onVoicesChanged(listener) {
+      speechSynthesis.addEventListener('voiceschanged', listener);
+      return () => speechSynthesis.removeEventListener('voiceschanged', listener);
+    },
+
+    async speak(request, events = {}) {
+      stop();
+      const current = generation;
+      const voices = await loadVoices();
+      if (current !== generation) return;
+
+      return new Promise<void>((resolve, reject) => {
+        const utterance = new SpeechSynthesisUtterance(request.text);
+        const voice = pickVoice(voices, request);
+        if (voice) utterance.voice = voice;
+        utterance.lang = voice?.lang ?? request.lang;
+        utterance.rate = request.rate;
+        utterance.pitch = request.pitch;
+        utterance.volume = request.volume;
+
+        const finish = () => {
+          finishCurrent = null;
+          resolve();
+        };
+        finishCurrent = finish;
+
+        utterance.onstart = () => events.onStart?.();
+        utterance.onboundary = (event) => {
+          if (event.name !== 'word') return;
+          // Safari leaves charLength at 0; take the word up to the next space instead
+          const length = event.charLength || (request.text.slice(event.charIndex).match(/^\S+/)?.[0].length ?? 0);
+          events.onBoundary?.(event.charIndex, length);
+        };
+        utterance.onend = finish;
+        utterance.onerror = (event) => {
+          finishCurrent = null;
+          // cancel() reports these; they mean "stopped", not "failed"
+          if (event.error === 'canceled' || event.error === 'interrupted') {
+            resolve();
+          } else {
+            reject(new Error(`Speech synthesis error: ${event.error}`));
+          }
+        };
+
+        speechSynthesis.speak(utterance);
+      });
+    },
+
+    stop,
+
+    pause() {
+      speechSynthesis.pause();
+    },
+
+    resume() {
+      speechSynthesis.resume();
+    }
+  };
+};
@@ -0,0 +1,137 @@
+import { TextToSpeechEngine, VoiceOption } from './types';
+
+export interface HttpSynthesisConfig {
+  /** Base URL of a Piper-compatible server: `POST /` returns audio, `GET /voices` lists voices. */
+  url: string;
+}
+
+// Piper answers `/voices` with an object keyed by voice name; other servers with a list
+const parseVoices = (data: unknown): VoiceOption[] => {
+  const toOption = (id: string, details: unknown): VoiceOption => {
+    const info = details && typeof details === 'object' ? details as Record<string, unknown> : {};
+    const language = info.language && typeof info.language === 'object'
+      ? (info.language as Record<string, unknown>).code
+      : info.language;
+    return {
+      id,
+      name: typeof info.name === 'string' ? info.name : id,
+      lang: typeof language === 'string' ? language.replace('_', '-') : undefined
+    };
+  };
+
+  if (Array.isArray(data)) {
+    return data.flatMap(item => {
+      if (typeof item === 'string') return [toOption(item, null)];
+      const id = item && typeof item === 'object' ? (item as Record<string, unknown>).id : undefined;
+      return typeof id === 'string' ? [toOption(id, item)] : [];
+    });
+  }
+  if (data && typeof data === 'object') {
+    return Object.entries(data).map(([id, details]) => toOption(id, details));
+  }
+  return [];
+};
+
+/**
+ * Sends text to a speech server on the school network (such as Piper's HTTP
+ * server) and plays the audio it returns. Pitch can't be changed; rate is
+ * sent as Piper's `length_scale`, so speed changes without chipmunk voices.
+ */
+export const createHttpSynthesisEngine = (config: HttpSynthesisConfig): TextToSpeechEngine => {
+  const baseUrl = config.url.replace(/\/+$/, '');
+  let audio: HTMLAudioElement | null = null;
+  let controller: AbortController | null = null;
+  let finishCurrent: (() => void) | null = null;
+
+  const stop = () => {
+    controller?.abort();
+    controller = null;
+    audio?.pause();
+    finishCurrent?.();
+  };
+
+  return {
+    unsupportedSettings: ['pitch'],
+
+    async getVoices() {
+      try {
+        const response = await fetch(`${baseUrl}/voices`);
+        return response.ok ? parseVoices(await response.json()) : [];
+      } catch (error) {
+        console.warn('Ses listesi alınamadı:', error);
+        return [];
+      }
+    },
+
+    onVoicesChanged() {
+      return () => undefined;
+    },
+
+    async speak(request, events = {}) {
+      stop();
+      const currentController = new AbortController();
+      controller = currentController;
+
+      const response = await fetch(`${baseUrl}/`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          text: request.text,
+          ...(request.voiceId ? { voice: request.voiceId } : {}),
+          length_scale: 1 / request.rate
+        }),
+        signal: currentController.signal
+      }).catch(error => {
+        if (currentController.signal.aborted) return null;
+        throw error;
+      });
+      if (!response) return;
+      if (!response.ok) {
+        throw new Error(`Speech server answered with HTTP ${response.status}`);
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      if (currentController.signal.aborted) {
+        URL.revokeObjectURL(url);
+        return;
+      }
+
+      return new Promise<void>((resolve, reject) => {
+        const player = new Audio(url);
+        player.volume = request.volume;
+        audio = player;
+
+        const cleanUp = () => {
+          URL.revokeObjectURL(url);
+          if (audio === player) audio = null;
+          finishCurrent = null;
+        };
+        finishCurrent = () => {
+          cleanUp();
+          resolve();
+        };
+
+        player.onplaying = () => events.onStart?.();
+        player.onended = () => finishCurrent?.();
+        player.onerror = () => {
+          cleanUp();
+          reject(new Error('Audio playback failed'));
+        };
+        player.play().catch(error => {
+          cleanUp();
+          reject(error);
+        });
+      });
+    },
+
+    stop,
+
+    pause() {
+      audio?.pause();
+    },
+
+    resume() {
+      audio?.play().catch(error => console.error('Ses oynatma hatası:', error));
+    }
+  };
+};
@@ -0,0 +1,58 @@
+import { AppConfig } from '../config';
+import { SpeechToTextEngine, SpeechToTextHandlers, SpeechToTextOptions, TextToSpeechEngine } from './types';
+import { createWebSpeechEngine, isWebSpeechSupported } from './webSpeech';
+import { createWhisperEngine, isWhisperSupported } from './whisper';
+import { createBrowserSynthesisEngine, isBrowserSynthesisSupported } from './browserSynthesis';
+import { createHttpSynthesisEngine } from './httpSynthesis';
+
+export type {
+  SpeakEvents,
+  SpeakRequest,
+  SpeechRecognitionErrorReason,
+  SpeechToTextEngine,
+  SpeechToTextHandlers,
+  SpeechToTextOptions,
+  TextToSpeechEngine,
+  VoiceOption,
+  VoiceSettings
+} from './types';
+
+export const isSpeechToTextSupported = (config: AppConfig): boolean => {
+  switch (config.speechToText) {
+    case 'whisper':
+      return isWhisperSupported();
+    case 'browser':
+      return isWebSpeechSupported();
+  }
+};
+
+export const createSpeechToTextEngine = (
+  config: AppConfig,
+  handlers: SpeechToTextHandlers,
+  options: SpeechToTextOptions
+): SpeechToTextEngine => {
+  switch (config.speechToText) {
+    case 'whisper':
+      return createWhisperEngine({ url: config.whisperUrl, model: config.whisperModel }, handlers, options);
+    case 'browser':
+      return createWebSpeechEngine(handlers, options);
+  }
+};
+
+export const isTextToSpeechSupported = (config: AppConfig): boolean => {
+  switch (config.textToSpeech) {
+    case 'http':
+      return typeof Audio !== 'undefined';
+    case 'browser':
+      return isBrowserSynthesisSupported();
+  }
+};
+
+export const createTextToSpeechEngine = (config: AppConfig): TextToSpeechEngine => {
+  switch (config.textToSpeech) {
+    case 'http':
+      return createHttpSynthesisEngine({ url: config.ttsUrl });
+    case 'browser':
+      return createBrowserSynthesisEngine();
+  }
+};
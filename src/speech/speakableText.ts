@@ -0,0 +1,78 @@
+// Sentences longer than this are split again at commas; some voices stall or
+// get cut off on very long utterances.
+const MAX_SENTENCE_LENGTH = 220;
+
+const EMOJI = /\p{Extended_Pictographic}|\p{Regional_Indicator}|\u{FE0F}|\u{200D}|\u{20E3}/gu;
+
+/**
+ * Reduces markdown to what should be read aloud: code blocks, formulas,
+ * link targets, table rules and formatting marks are dropped, and so are
+ * emoji, which voices otherwise read out by name.
+ */
+export const toSpeakableText = (markdown: string) =>
+  markdown
+    .replace(/^\s*(```|~~~)[\s\S]*?(^\s*\1|$(?![\s\S]))/gm, ' ')
+    .replace(/\$\$[\s\S]*?\$\$/g, ' ')
+    .replace(/\$[^$\n]+\$/g, ' ')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^[ \t]*\|?[ \t:|-]+\|[ \t:|-]*$/gm, '')
+    .replace(/^[ \t]*\||\|[ \t]*$/gm, '')
+    .replace(/[ \t]*\|[ \t]*/g, ', ')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+[.)])\s+/gm, '')
+    .replace(/(\*\*|__|\*|_|~~)(?=\S)([^\n]*?\S)\1/g, '$2')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(EMOJI, '')
+    .replace(/[ \t]+/g, ' ')
+    .trim();
+
+// Packs pieces back together into chunks no longer than the limit
+const pack = (pieces: string[]): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 1 > MAX_SENTENCE_LENGTH) {
+      parts.push(current);
+      current = piece;
+    } else {
+      current = current ? `${current} ${piece}` : piece;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+};
+
+const splitLongSentence = (sentence: string): string[] => {
+  if (sentence.length <= MAX_SENTENCE_LENGTH) return [sentence];
+
+  return pack(sentence.split(/(?<=[,;:])\s+/).flatMap(piece =>
+    piece.length > MAX_SENTENCE_LENGTH ? pack(piece.split(/\s+/)) : [piece]
+  ));
+};
+
+// "Dr.", "vb." or "3." end with a period but not a sentence
+const ABBREVIATION = /(?:^|\s)(?:\p{Lu}\p{Ll}{0,2}|vb|vs|örn|bkz|\d{1,2})\.$/u;
+
+const splitSentences = (line: string): string[] =>
+  line.split(/(?<=[.!?…])\s+(?=\S)/).reduce<string[]>((sentences, piece) => {
+    const previous = sentences[sentences.length - 1];
+    if (previous !== undefined && ABBREVIATION.test(previous)) {
+      sentences[sentences.length - 1] = `${previous} ${piece}`;
+    } else {
+      sentences.push(piece);
+    }
+    return sentences;
+  }, []);
+
+/**
+ * Splits a reply into sentences to be spoken one by one. Line breaks end a
+ * sentence too, so list items and headings are read as separate phrases.
+ */
+export const toSpeakableSentences = (markdown: string): string[] =>
+  toSpeakableText(markdown)
+    .split(/\n+/)
+    .flatMap(splitSentences)
+    .map(sentence => sentence.trim())
+    .filter(sentence => /[\p{L}\p{N}]/u.test(sentence))
+    .flatMap(splitLongSentence);
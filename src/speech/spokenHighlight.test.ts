@@ -0,0 +1,51 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import { describe, expect, it } from 'vitest';
+import { rehypeSpokenHighlight, SpokenHighlight } from './spokenHighlight';
+import { toSpeakableSentences } from './speakableText';
+
+const render = (markdown: string, highlight: Omit<SpokenHighlight, 'sentences'>) =>
+  renderToStaticMarkup(createElement(ReactMarkdown, {
+    remarkPlugins: [remarkGfm, remarkMath],
+    rehypePlugins: [[rehypeSpokenHighlight, { ...highlight, sentences: toSpeakableSentences(markdown) }]],
+    children: markdown
+  }));
+
+describe('rehypeSpokenHighlight', () => {
+  it('marks the current sentence across formatting', () => {
+    const html = render('Sınav **yarın** başlıyor. Saat 9’da 🎉 buluşalım.', { index: 1, word: null });
+
+    expect(html).toBe(
+      '<p>Sınav <strong>yarın</strong> başlıyor. <mark class="speech-sentence">Saat 9’da 🎉 buluşalım</mark>.</p>'
+    );
+  });
+
+  it('marks the word being spoken within the sentence', () => {
+    const html = render('Sınav **yarın** başlıyor.', { index: 0, word: { start: 6, length: 5 } });
+
+    expect(html).toBe(
+      '<p><mark class="speech-sentence">Sınav </mark><strong><mark class="speech-word">yarın</mark></strong>' +
+      '<mark class="speech-sentence"> başlıyor</mark>.</p>'
+    );
+  });
+
+  it('finds a repeated sentence where it is being read, skipping code', () => {
+    const markdown = 'Tekrar edelim.\n\n```\nTekrar edelim.\n```\n\nTekrar edelim.';
+    const html = render(markdown, { index: 1, word: null });
+
+    expect(html.match(/<mark/g)).toHaveLength(1);
+    expect(html).toMatch(/<p><mark class="speech-sentence">Tekrar edelim<\/mark>\.<\/p>$/);
+  });
+
+  it('leaves the text alone when the sentence is not on the page', () => {
+    const html = renderToStaticMarkup(createElement(ReactMarkdown, {
+      rehypePlugins: [[rehypeSpokenHighlight, { sentences: ['Başka bir cümle.'], index: 0, word: null }]],
+      children: 'Merhaba.'
+    }));
+
+    expect(html).toBe('<p>Merhaba.</p>');
+  });
+});
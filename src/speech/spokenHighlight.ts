@@ -0,0 +1,144 @@
+import type { Element, ElementContent, Root, Text } from 'hast';
+
+export interface SpokenHighlight {
+  sentences: string[];
+  /** Sentence being spoken. */
+  index: number;
+  /** Word being spoken, as a range within the current sentence. */
+  word: { start: number; length: number } | null;
+}
+
+interface TextRun {
+  node: Text;
+  parent: Element | Root;
+}
+
+interface Position {
+  run: number;
+  offset: number;
+}
+
+// Only letters and digits are compared: the spoken sentences have lost
+// markdown, emoji and table pipes, and their spacing differs from the page
+const SPOKEN_CHARACTER = /[\p{L}\p{N}]/u;
+
+// Code blocks and formulas are left out of speech (see toSpeakableText)
+const isUnspoken = (element: Element) => {
+  if (element.tagName === 'pre') return true;
+  const className = element.properties.className;
+  return Array.isArray(className) && (className.includes('math-inline') || className.includes('math-display'));
+};
+
+const collectText = (parent: Element | Root, runs: TextRun[]) => {
+  for (const child of parent.children) {
+    if (child.type === 'text') {
+      runs.push({ node: child, parent });
+    } else if (child.type === 'element' && !isUnspoken(child)) {
+      collectText(child, runs);
+    }
+  }
+};
+
+/**
+ * Keeps the letters and digits of `text`, remembering for each UTF-16 unit
+ * kept where it came from.
+ */
+const skeletonOf = <P>(text: string, positionAt: (offset: number) => P, into = { text: '', positions: [] as P[] }) => {
+  let offset = 0;
+  for (const character of text) {
+    if (SPOKEN_CHARACTER.test(character)) {
+      into.text += character;
+      for (let unit = 0; unit < character.length; unit++) {
+        into.positions.push(positionAt(offset + unit));
+      }
+    }
+    offset += character.length;
+  }
+  return into;
+};
+
+type Mark = 'speech-sentence' | 'speech-word';
+
+const splitRun = (text: string, ranges: { from: number; to: number; mark: Mark }[]): ElementContent[] => {
+  const cuts = [...new Set([0, text.length, ...ranges.flatMap(range => [range.from, range.to])])].sort((a, b) => a - b);
+  const pieces: ElementContent[] = [];
+
+  for (let i = 0; i < cuts.length - 1; i++) {
+    const value = text.slice(cuts[i], cuts[i + 1]);
+    // The word range lies within the sentence range, so it wins
+    const mark = ranges
+      .filter(range => range.from <= cuts[i] && cuts[i + 1] <= range.to)
+      .reduce<Mark | null>((current, range) => (current === 'speech-word' ? current : range.mark), null);
+
+    pieces.push(mark
+      ? { type: 'element', tagName: 'mark', properties: { className: [mark] }, children: [{ type: 'text', value }] }
+      : { type: 'text', value });
+  }
+  return pieces;
+};
+
+/**
+ * Rehype plugin that marks the sentence being read aloud, and the word within
+ * it, in the rendered message. The spoken sentences are found in the page text
+ * one after another, so a phrase repeated later in the reply is marked where
+ * it is actually being read. A sentence that can't be found is not marked,
+ * and without `highlight` nothing is.
+ */
+export const rehypeSpokenHighlight = (highlight?: SpokenHighlight) => (tree: Root) => {
+  if (!highlight) return;
+
+  const runs: TextRun[] = [];
+  collectText(tree, runs);
+
+  const page = { text: '', positions: [] as Position[] };
+  runs.forEach(({ node }, run) => skeletonOf(node.value, offset => ({ run, offset }), page));
+
+  let cursor = 0;
+  let found = -1;
+  for (let i = 0; i <= highlight.index && i < highlight.sentences.length; i++) {
+    const sentence = skeletonOf(highlight.sentences[i], offset => offset).text;
+    const start = sentence ? page.text.indexOf(sentence, cursor) : -1;
+    if (start === -1) {
+      found = -1;
+      continue;
+    }
+    found = start;
+    cursor = start + sentence.length;
+  }
+  if (found === -1) return;
+
+  const sentence = skeletonOf(highlight.sentences[highlight.index], offset => offset);
+  const ranges = new Map<number, { from: number; to: number; mark: Mark }[]>();
+  const addRange = (first: number, last: number, mark: Mark) => {
+    const start = page.positions[first];
+    const end = page.positions[last];
+    for (let run = start.run; run <= end.run; run++) {
+      const value = runs[run].node.value;
+      // Line breaks between blocks (table rows, list items) stay unmarked
+      if (!value.trim()) continue;
+      ranges.set(run, [...(ranges.get(run) ?? []), {
+        from: run === start.run ? start.offset : 0,
+        to: run === end.run ? end.offset + 1 : value.length,
+        mark
+      }]);
+    }
+  };
+
+  addRange(found, found + sentence.text.length - 1, 'speech-sentence');
+
+  const { word } = highlight;
+  if (word) {
+    const units = sentence.positions
+      .map((offset, unit) => ({ offset, unit }))
+      .filter(({ offset }) => offset >= word.start && offset < word.start + word.length);
+    if (units.length > 0) {
+      addRange(found + units[0].unit, found + units[units.length - 1].unit, 'speech-word');
+    }
+  }
+
+  ranges.forEach((runRanges, run) => {
+    const { node, parent } = runs[run];
+    const children = parent.children as ElementContent[];
+    children.splice(children.indexOf(node), 1, ...splitRun(node.value, runRanges));
+  });
+};
@@ -0,0 +1,84 @@
+export type SpeechRecognitionErrorReason =
+  | 'not-allowed'
+  | 'no-speech'
+  | 'audio-capture'
+  | 'network'
+  | 'language-not-supported'
+  | 'unsupported'
+  | 'unknown';
+
+/** How an engine reports back; called in the order listed for one utterance. */
+export interface SpeechToTextHandlers {
+  /** Audio capture is running. */
+  onStart(): void;
+  /** Recognised text; interim results are replaced by the next result, final ones are appended. */
+  onResult(text: string, isFinal: boolean): void;
+  /** Capture has stopped and the last text is being produced. */
+  onProcessing(): void;
+  onError(reason: SpeechRecognitionErrorReason): void;
+  /** Always the last call for an utterance, after an error too. */
+  onEnd(): void;
+}
+
+export interface SpeechToTextOptions {
+  /** How long a pause after speech ends the utterance. */
+  silenceTimeoutMs: number;
+}
+
+/**
+ * Turns one spoken utterance at a time into text. Engines end an utterance
+ * on their own after a pause; `stop` ends it early and still delivers the
+ * text, `abort` throws it away.
+ */
+export interface SpeechToTextEngine {
+  start(lang: string): void;
+  stop(): void;
+  abort(): void;
+}
+
+export interface VoiceOption {
+  id: string;
+  name: string;
+  /** BCP 47 tag when the engine knows it. */
+  lang?: string;
+  /** Synthesised by a remote service, so it needs a connection. */
+  remote?: boolean;
+}
+
+/** Voice choices the user can change; saved between sessions. */
+export interface VoiceSettings {
+  /** Null picks the engine's best match for the language. */
+  voiceId: string | null;
+  rate: number;
+  pitch: number;
+  volume: number;
+}
+
+export interface SpeakRequest extends VoiceSettings {
+  text: string;
+  lang: string;
+}
+
+export interface SpeakEvents {
+  /** Audio has started playing. */
+  onStart?(): void;
+  /** A word is being spoken, as a range in the request's text. Not every engine reports this. */
+  onBoundary?(charIndex: number, charLength: number): void;
+}
+
+/**
+ * Reads text aloud. `speak` resolves once playback has finished or was
+ * stopped, and rejects when the engine fails; a new `speak` stops the
+ * previous one.
+ */
+export interface TextToSpeechEngine {
+  /** Settings this engine can't apply, so the UI can hide them. */
+  readonly unsupportedSettings: (keyof VoiceSettings)[];
+  getVoices(): Promise<VoiceOption[]>;
+  /** Calls `listener` when the voice list changes; returns an unsubscribe function. */
+  onVoicesChanged(listener: () => void): () => void;
+  speak(request: SpeakRequest, events?: SpeakEvents): Promise<void>;
+  stop(): void;
+  pause(): void;
+  resume(): void;
+}
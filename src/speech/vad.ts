@@ -0,0 +1,64 @@
+export interface VoiceActivityOptions {
+  /** RMS level (0–1) above which the input counts as voice. */
+  threshold?: number;
+  /** How long the level must stay above the threshold to count as speech, so clicks and bumps don't. */
+  minSpeechMs?: number;
+  /** How long the level must stay below the threshold after speech to count as a pause. */
+  silenceMs: number;
+  onSpeechStart?: () => void;
+  onSilence?: () => void;
+}
+
+const POLL_INTERVAL_MS = 50;
+
+/**
+ * Energy-based voice activity detection on a microphone stream. Good enough
+ * to tell speech from a quiet classroom; it doesn't try to tell voices apart.
+ * Returns a function that stops listening and releases the audio context.
+ */
+export const detectVoiceActivity = (
+  stream: MediaStream,
+  { threshold = 0.02, minSpeechMs = 150, silenceMs, onSpeechStart, onSilence }: VoiceActivityOptions
+): (() => void) => {
+  const context = new AudioContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+  const source = context.createMediaStreamSource(stream);
+  source.connect(analyser);
+
+  const samples = new Float32Array(analyser.fftSize);
+  let speaking = false;
+  let loudSince: number | null = null;
+  let quietSince: number | null = null;
+
+  // A timer rather than requestAnimationFrame, which stops in background tabs
+  const interval = setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (const sample of samples) sum += sample * sample;
+    const level = Math.sqrt(sum / samples.length);
+    const now = performance.now();
+
+    if (level >= threshold) {
+      quietSince = null;
+      loudSince ??= now;
+      if (!speaking && now - loudSince >= minSpeechMs) {
+        speaking = true;
+        onSpeechStart?.();
+      }
+    } else {
+      loudSince = null;
+      quietSince ??= now;
+      if (speaking && now - quietSince >= silenceMs) {
+        speaking = false;
+        onSilence?.();
+      }
+    }
+  }, POLL_INTERVAL_MS);
+
+  return () => {
+    clearInterval(interval);
+    source.disconnect();
+    context.close().catch(() => undefined);
+  };
+};
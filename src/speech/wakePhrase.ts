@@ -0,0 +1,21 @@
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Looks for the wake phrase as whole words in a transcript, ignoring case and
+ * punctuation. Returns whatever was said after it, which is the question when
+ * someone says "Asistan, kütüphane kaçta kapanıyor?" in one go, or null when
+ * the phrase isn't there.
+ */
+export const matchWakePhrase = (transcript: string, wakePhrase: string): string | null => {
+  const words = wakePhrase.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  if (words.length === 0) return transcript;
+
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])${words.map(escapeRegExp).join('[^\\p{L}\\p{N}]+')}(?![\\p{L}\\p{N}])`,
+    'iu'
+  );
+  const match = pattern.exec(transcript);
+  if (!match) return null;
+
+  return transcript.slice(match.index + match[0].length).replace(/^[^\p{L}\p{N}]+/u, '').trim();
+};
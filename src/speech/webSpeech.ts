@@ -0,0 +1,147 @@
+import { SpeechRecognitionErrorReason, SpeechToTextEngine, SpeechToTextHandlers, SpeechToTextOptions } from './types';
+
+interface SpeechRecognitionEvent extends Event {
+  results: SpeechRecognitionResultList;
+  resultIndex: number;
+}
+
+interface SpeechRecognitionErrorEvent extends Event {
+  error: string;
+  message: string;
+}
+
+interface SpeechRecognition extends EventTarget {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  start(): void;
+  stop(): void;
+  abort(): void;
+  onstart: ((this: SpeechRecognition, ev: Event) => void) | null;
+  onend: ((this: SpeechRecognition, ev: Event) => void) | null;
+  onresult: ((this: SpeechRecognition, ev: SpeechRecognitionEvent) => void) | null;
+  onerror: ((this: SpeechRecognition, ev: SpeechRecognitionErrorEvent) => void) | null;
+}
+
+declare global {
+  interface Window {
+    SpeechRecognition: new () => SpeechRecognition;
+    webkitSpeechRecognition: new () => SpeechRecognition;
+  }
+}
+
+const ERROR_REASONS: Record<string, SpeechRecognitionErrorReason> = {
+  'not-allowed': 'not-allowed',
+  'service-not-allowed': 'not-allowed',
+  'no-speech': 'no-speech',
+  'audio-capture': 'audio-capture',
+  network: 'network',
+  'language-not-supported': 'language-not-supported'
+};
+
+const getRecognitionConstructor = () =>
+  typeof window === 'undefined' ? undefined : window.SpeechRecognition || window.webkitSpeechRecognition;
+
+export const isWebSpeechSupported = () => !!getRecognitionConstructor();
+
+/**
+ * The browser's built-in recognizer. Chrome and Safari send the audio to
+ * their vendor's cloud; Firefox doesn't offer it at all.
+ */
+export const createWebSpeechEngine = (
+  handlers: SpeechToTextHandlers,
+  { silenceTimeoutMs }: SpeechToTextOptions
+): SpeechToTextEngine => {
+  const Recognition = getRecognitionConstructor();
+  let recognition: SpeechRecognition | null = null;
+  let silenceTimer: ReturnType<typeof setTimeout> | null = null;
+  let stopping = false;
+
+  const clearSilenceTimer = () => {
+    if (silenceTimer) {
+      clearTimeout(silenceTimer);
+      silenceTimer = null;
+    }
+  };
+
+  const stop = () => {
+    clearSilenceTimer();
+    if (!recognition || stopping) return;
+    stopping = true;
+    handlers.onProcessing();
+    recognition.stop();
+  };
+
+  const getRecognition = () => {
+    if (recognition || !Recognition) return recognition;
+
+    recognition = new Recognition();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+
+    recognition.onstart = () => handlers.onStart();
+
+    recognition.onresult = (event) => {
+      let interim = '';
+      let final = '';
+
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (result.isFinal) {
+          final += result[0].transcript;
+        } else {
+          interim += result[0].transcript;
+        }
+      }
+
+      if (final) handlers.onResult(final, true);
+      handlers.onResult(interim, false);
+
+      clearSilenceTimer();
+      silenceTimer = setTimeout(stop, silenceTimeoutMs);
+    };
+
+    recognition.onerror = (event) => {
+      clearSilenceTimer();
+      // `aborted` is what our own abort() produces, not a failure
+      if (event.error === 'aborted') return;
+      console.error('Speech recognition error:', event.error);
+      handlers.onError(ERROR_REASONS[event.error] ?? 'unknown');
+    };
+
+    recognition.onend = () => {
+      clearSilenceTimer();
+      stopping = false;
+      handlers.onEnd();
+    };
+
+    return recognition;
+  };
+
+  return {
+    start(lang) {
+      const current = getRecognition();
+      if (!current) {
+        handlers.onError('unsupported');
+        handlers.onEnd();
+        return;
+      }
+
+      stopping = false;
+      current.lang = lang;
+      try {
+        current.start();
+      } catch (error) {
+        // Thrown when the browser still considers the previous session running
+        console.error('Speech recognition start error:', error);
+        handlers.onError('unknown');
+        handlers.onEnd();
+      }
+    },
+    stop,
+    abort() {
+      clearSilenceTimer();
+      recognition?.abort();
+    }
+  };
+};
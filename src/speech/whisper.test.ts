@@ -0,0 +1,266 @@
+import { createServer, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createWhisperEngine } from './whisper';
+import type { VoiceActivityOptions } from './vad';
+import { SpeechToTextHandlers } from './types';
+
+let voiceActivity: VoiceActivityOptions | null = null;
+const stopDetection = vi.fn();
+
+// Speech and pauses are signalled by the test instead of measured from audio
+vi.mock('./vad', () => ({
+  detectVoiceActivity: (_stream: MediaStream, options: VoiceActivityOptions) => {
+    voiceActivity = options;
+    return stopDetection;
+  }
+}));
+
+class FakeMediaRecorder {
+  static instances: FakeMediaRecorder[] = [];
+  static isTypeSupported = (type: string) => type.startsWith('audio/webm');
+
+  state: 'inactive' | 'recording' = 'inactive';
+  mimeType: string;
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+
+  constructor(_stream: MediaStream, options?: { mimeType?: string }) {
+    this.mimeType = options?.mimeType ?? 'audio/webm';
+    FakeMediaRecorder.instances.push(this);
+  }
+
+  start() {
+    this.state = 'recording';
+  }
+
+  stop() {
+    this.state = 'inactive';
+    this.ondataavailable?.({ data: new Blob(['kayit'], { type: this.mimeType }) });
+    this.onstop?.();
+  }
+}
+
+interface TranscriptionRequest {
+  fields: Record<string, string>;
+  file: File | null;
+}
+
+type Reply = (res: ServerResponse) => void | Promise<void>;
+
+// The mock transcription endpoint: records each upload and answers with `reply`
+let server: Server;
+let endpoint = '';
+let reply: Reply;
+const uploads: TranscriptionRequest[] = [];
+
+beforeAll(async () => {
+  server = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk);
+    const form = await new Request('http://localhost', {
+      method: 'POST',
+      headers: { 'content-type': req.headers['content-type'] ?? '' },
+      body: Buffer.concat(chunks)
+    }).formData();
+
+    const fields: Record<string, string> = {};
+    let file: File | null = null;
+    form.forEach((value, key) => {
+      if (typeof value === 'string') fields[key] = value;
+      else file = value;
+    });
+    uploads.push({ fields, file });
+    await reply(res);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/inference`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+const answer = (status: number, body: unknown): Reply => (res) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const recordHandlers = () => {
+  const events: unknown[][] = [];
+  let resolveEnd = () => {};
+  const ended = new Promise<void>(resolve => {
+    resolveEnd = resolve;
+  });
+
+  const handlers: SpeechToTextHandlers = {
+    onStart: () => events.push(['start']),
+    onResult: (text, isFinal) => events.push(['result', text, isFinal]),
+    onProcessing: () => events.push(['processing']),
+    onError: (reason) => events.push(['error', reason]),
+    onEnd: () => {
+      events.push(['end']);
+      resolveEnd();
+    }
+  };
+  return { events, handlers, ended };
+};
+
+describe('whisper engine', () => {
+  const trackStop = vi.fn();
+  const getUserMedia = vi.fn();
+
+  beforeEach(() => {
+    FakeMediaRecorder.instances = [];
+    voiceActivity = null;
+    uploads.length = 0;
+    reply = answer(200, { text: ' Merhaba dünya ' });
+    getUserMedia.mockResolvedValue({ getTracks: () => [{ stop: trackStop }] });
+    vi.stubGlobal('MediaRecorder', FakeMediaRecorder);
+    vi.stubGlobal('navigator', { mediaDevices: { getUserMedia } });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+    vi.useRealTimers();
+  });
+
+  const createEngine = (handlers: SpeechToTextHandlers) =>
+    createWhisperEngine({ url: endpoint, model: 'whisper-1' }, handlers, { silenceTimeoutMs: 1200 });
+
+  const startRecording = async (engine: ReturnType<typeof createEngine>, events: unknown[][]) => {
+    engine.start('tr-TR');
+    await vi.waitFor(() => expect(events).toContainEqual(['start']));
+  };
+
+  it('sends the utterance to the endpoint once a pause follows speech', async () => {
+    const { events, handlers, ended } = recordHandlers();
+    const engine = createEngine(handlers);
+
+    await startRecording(engine, events);
+    expect(voiceActivity?.silenceMs).toBe(1200);
+    voiceActivity?.onSpeechStart?.();
+    voiceActivity?.onSilence?.();
+    await ended;
+
+    expect(events).toEqual([['start'], ['processing'], ['result', 'Merhaba dünya', true], ['end']]);
+    expect(uploads).toHaveLength(1);
+    expect(uploads[0].fields).toEqual({ model: 'whisper-1', language: 'tr', response_format: 'json' });
+    expect(uploads[0].file?.name).toBe('speech.webm');
+    expect(await uploads[0].file?.text()).toBe('kayit');
+    expect(trackStop).toHaveBeenCalled();
+    expect(stopDetection).toHaveBeenCalled();
+  });
+
+  it('delivers the text when stopped by hand', async () => {
+    const { events, handlers, ended } = recordHandlers();
+    const engine = createEngine(handlers);
+
+    await startRecording(engine, events);
+    voiceActivity?.onSpeechStart?.();
+    engine.stop();
+    await ended;
+
+    expect(events).toContainEqual(['result', 'Merhaba dünya', true]);
+  });
+
+  it('reports a failing endpoint as a network error', async () => {
+    reply = answer(500, { error: 'model yüklenemedi' });
+    const { events, handlers, ended } = recordHandlers();
+    const engine = createEngine(handlers);
+
+    await startRecording(engine, events);
+    voiceActivity?.onSpeechStart?.();
+    voiceActivity?.onSilence?.();
+    await ended;
+
+    expect(events).toEqual([['start'], ['processing'], ['error', 'network'], ['end']]);
+  });
+
+  it('reports a reply without text as a network error', async () => {
+    reply = answer(200, { segments: [] });
+    const { events, handlers, ended } = recordHandlers();
+    const engine = createEngine(handlers);
+
+    await startRecording(engine, events);
+    voiceActivity?.onSpeechStart?.();
+    voiceActivity?.onSilence?.();
+    await ended;
+
+    expect(events).toEqual([['start'], ['processing'], ['error', 'network'], ['end']]);
+  });
+
+  it('gives up with no-speech when nobody talks, without calling the endpoint', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const { events, handlers, ended } = recordHandlers();
+    const engine = createEngine(handlers);
+
+    await startRecording(engine, events);
+    vi.advanceTimersByTime(8000);
+    await ended;
+
+    expect(events).toEqual([['start'], ['processing'], ['error', 'no-speech'], ['end']]);
+    expect(uploads).toHaveLength(0);
+  });
+
+  it.each([
+    ['NotAllowedError', 'not-allowed'],
+    ['SecurityError', 'not-allowed'],
+    ['NotFoundError', 'audio-capture'],
+    ['NotReadableError', 'audio-capture'],
+    ['AbortError', 'unknown']
+  ])('maps the microphone error %s to %s', async (name, reason) => {
+    getUserMedia.mockRejectedValue(new DOMException('mikrofon', name));
+    const { events, handlers, ended } = recordHandlers();
+
+    createEngine(handlers).start('tr-TR');
+    await ended;
+
+    expect(events).toEqual([['error', reason], ['end']]);
+    expect(FakeMediaRecorder.instances).toHaveLength(0);
+  });
+
+  it('throws the transcription away when aborted', async () => {
+    let release = () => {};
+    reply = async (res) => {
+      await new Promise<void>(resolve => {
+        release = resolve;
+      });
+      answer(200, { text: 'geç kalan' })(res);
+    };
+    const { events, handlers, ended } = recordHandlers();
+    const engine = createEngine(handlers);
+
+    await startRecording(engine, events);
+    voiceActivity?.onSpeechStart?.();
+    voiceActivity?.onSilence?.();
+    await vi.waitFor(() => expect(uploads).toHaveLength(1));
+    engine.abort();
+    await ended;
+    release();
+
+    expect(events).toEqual([['start'], ['processing'], ['end']]);
+  });
+
+  it('ends quietly when stopped before the microphone opens', async () => {
+    let grant = () => {};
+    getUserMedia.mockReturnValue(new Promise(resolve => {
+      grant = () => resolve({ getTracks: () => [{ stop: trackStop }] });
+    }));
+    const { events, handlers, ended } = recordHandlers();
+    const engine = createEngine(handlers);
+
+    engine.start('tr-TR');
+    engine.stop();
+    await ended;
+    grant();
+    await vi.waitFor(() => expect(trackStop).toHaveBeenCalled());
+
+    expect(events).toEqual([['end']]);
+    expect(FakeMediaRecorder.instances).toHaveLength(0);
+  });
+});
@@ -0,0 +1,200 @@
+import { SpeechRecognitionErrorReason, SpeechToTextEngine, SpeechToTextHandlers, SpeechToTextOptions } from './types';
+import { detectVoiceActivity } from './vad';
+
+export interface WhisperEngineConfig {
+  /** Full URL of the transcription endpoint, e.g. whisper.cpp's `/inference` or `/v1/audio/transcriptions`. */
+  url: string;
+  /** Sent as `model`; OpenAI-compatible servers need it, whisper.cpp ignores it. */
+  model: string;
+}
+
+// Give up when nobody says anything; the browser engine does the same
+const NO_SPEECH_TIMEOUT_MS = 8000;
+const MAX_RECORDING_MS = 60_000;
+
+const RECORDING_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a'
+};
+
+export const isWhisperSupported = () =>
+  typeof MediaRecorder !== 'undefined' && typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+const microphoneErrorReason = (error: unknown): SpeechRecognitionErrorReason => {
+  if (error instanceof DOMException) {
+    if (error.name === 'NotAllowedError' || error.name === 'SecurityError') return 'not-allowed';
+    if (error.name === 'NotFoundError' || error.name === 'NotReadableError') return 'audio-capture';
+  }
+  return 'unknown';
+};
+
+const transcribe = async (config: WhisperEngineConfig, audio: Blob, lang: string, signal: AbortSignal) => {
+  const mime = audio.type.split(';')[0];
+  const form = new FormData();
+  form.append('file', audio, `speech.${FILE_EXTENSIONS[mime] ?? 'webm'}`);
+  form.append('model', config.model);
+  // Whisper wants ISO 639-1 ("tr"), not a BCP 47 tag ("tr-TR")
+  form.append('language', lang.split('-')[0]);
+  form.append('response_format', 'json');
+
+  const response = await fetch(config.url, { method: 'POST', body: form, signal });
+  if (!response.ok) {
+    throw new Error(`Transcription failed with HTTP ${response.status}`);
+  }
+
+  const data: unknown = await response.json();
+  const text = data && typeof data === 'object' ? (data as { text?: unknown }).text : undefined;
+  if (typeof text !== 'string') {
+    throw new Error('Transcription response has no text');
+  }
+  return text.trim();
+};
+
+/** Everything belonging to the utterance in progress. */
+interface RecordingSession {
+  stream: MediaStream | null;
+  recorder: MediaRecorder | null;
+  stopDetection: () => void;
+  timers: ReturnType<typeof setTimeout>[];
+  heardSpeech: boolean;
+  /** Set by abort(), so the recorder's late `stop` event is ignored. */
+  discard: boolean;
+  controller: AbortController;
+}
+
+/**
+ * Records the microphone with MediaRecorder, ends the utterance when voice
+ * activity detection hears a pause, and sends the recording to a
+ * Whisper-compatible server. Audio never leaves the school's network when
+ * that server is self-hosted.
+ */
+export const createWhisperEngine = (
+  config: WhisperEngineConfig,
+  handlers: SpeechToTextHandlers,
+  { silenceTimeoutMs }: SpeechToTextOptions
+): SpeechToTextEngine => {
+  let session: RecordingSession | null = null;
+
+  const release = () => {
+    if (!session) return;
+    session.stopDetection();
+    session.timers.forEach(clearTimeout);
+    session.stream?.getTracks().forEach(track => track.stop());
+  };
+
+  const finish = (reason?: SpeechRecognitionErrorReason) => {
+    if (!session) return;
+    release();
+    session = null;
+    if (reason) handlers.onError(reason);
+    handlers.onEnd();
+  };
+
+  const abort = () => {
+    if (!session) return;
+    session.discard = true;
+    session.controller.abort();
+    if (session.recorder?.state === 'recording') session.recorder.stop();
+    finish();
+  };
+
+  const stop = () => {
+    const current = session;
+    if (!current) return;
+    // Stopped before recording began: there is nothing to transcribe
+    if (!current.recorder) {
+      abort();
+      return;
+    }
+    if (current.recorder.state === 'inactive') return;
+    release();
+    handlers.onProcessing();
+    current.recorder.stop();
+  };
+
+  const start = async (lang: string) => {
+    if (session) return;
+    const current: RecordingSession = {
+      stream: null,
+      recorder: null,
+      stopDetection: () => undefined,
+      timers: [],
+      heardSpeech: false,
+      discard: false,
+      controller: new AbortController()
+    };
+    session = current;
+
+    try {
+      current.stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true }
+      });
+    } catch (error) {
+      console.error('Mikrofon hatası:', error);
+      if (session === current) finish(microphoneErrorReason(error));
+      return;
+    }
+
+    // Aborted while the permission prompt was open
+    if (session !== current) {
+      current.stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    const mimeType = RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(current.stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    current.recorder = recorder;
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+
+    recorder.onstop = async () => {
+      if (current.discard || session !== current) return;
+      if (!current.heardSpeech) {
+        finish('no-speech');
+        return;
+      }
+
+      try {
+        const text = await transcribe(config, new Blob(chunks, { type: recorder.mimeType }), lang, current.controller.signal);
+        if (session !== current) return;
+        if (text) handlers.onResult(text, true);
+        finish();
+      } catch (error) {
+        if (session !== current) return;
+        console.error('Ses yazıya dökülemedi:', error);
+        finish('network');
+      }
+    };
+
+    current.stopDetection = detectVoiceActivity(current.stream, {
+      silenceMs: silenceTimeoutMs,
+      onSpeechStart: () => {
+        current.heardSpeech = true;
+      },
+      onSilence: stop
+    });
+    current.timers.push(
+      setTimeout(() => {
+        if (!current.heardSpeech) stop();
+      }, NO_SPEECH_TIMEOUT_MS),
+      setTimeout(stop, MAX_RECORDING_MS)
+    );
+
+    recorder.start();
+    handlers.onStart();
+  };
+
+  return {
+    start(lang) {
+      void start(lang);
+    },
+    stop,
+    abort
+  };
+};
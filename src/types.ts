@@ -1,20 +1,77 @@
+import { Language } from './languages';
+import type { Relevance } from './relevance';
+
+export type ChatMode = 'query' | 'chat';
+
+export type ChatApiErrorCode =
+  | 'auth'
+  | 'forbidden'
+  | 'rate-limited'
+  | 'server'
+  | 'network'
+  | 'aborted'
+  | 'invalid-response'
+  | 'timeout'
+  | 'too-large'
+  | 'unknown';
+
+/** Why a user message could not be answered; stored with the message. */
+export interface ChatErrorInfo {
+  code: ChatApiErrorCode;
+  status?: number;
+  retryAfterSeconds?: number;
+}
+
+/** The user's rating of a bot reply. */
+export interface MessageFeedback {
+  rating: 'up' | 'down';
+  comment: string;
+}
+
 export interface ChatMessage {
   id: string;
+  /**
+   * The message this one follows; null for the first one. Messages with the
+   * same parent are alternative branches: edits of a question, or answers
+   * generated again.
+   */
+  parentId?: string | null;
   type: 'user' | 'bot';
   message: string;
   timestamp: Date;
-  attachment?: ChatAttachment;
+  attachments?: ChatAttachment[];
+  /**
+   * Mode the user message was sent in, so queued messages replay the same way;
+   * on bot messages, the mode the reply was written in.
+   */
+  mode?: ChatMode;
+  status?: 'pending' | 'retrying' | 'failed' | 'cancelled';
+  error?: ChatErrorInfo;
+  /** Documents the workspace used for this reply (bot messages only). */
+  sources?: Source[];
+  /** How closely the sources match the reply; unset when there are none (bot messages only). */
+  relevance?: Relevance;
+  /** Language the reply is written in, detected once it is complete (bot messages only). */
+  language?: Language;
+  /** `id` the server gave the reply, so feedback can point at it (bot messages only). */
+  responseId?: string;
+  feedback?: MessageFeedback;
 }
 
 export interface ChatAttachment {
   name: string;
   mime: string;
+  /** Data URL of an image; empty for documents, which are sent as `text`. */
   contentString: string;
+  /** Size of the original file in bytes. */
+  size?: number;
+  /** Text extracted from a document attachment. */
+  text?: string;
 }
 
 export interface ApiResponse {
   id: string;
-  type: 'abort' | 'textResponse';
+  type: 'abort' | 'textResponse' | 'textResponseChunk' | 'finalizeResponseStream';
   textResponse: string;
   sources: {
     title: string;
@@ -27,4 +84,31 @@ export interface ApiResponse {
 export interface Source {
   title: string;
   chunk: string;
-}
\ No newline at end of file
+  /** Similarity between the question and the chunk (0–1), when the vector database reports one. */
+  score?: number;
+}
+
+/** A knowledge base on the chat server, e.g. one per course. */
+export interface Workspace {
+  slug: string;
+  name: string;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  sessionId: string;
+  /** Slug of the workspace the conversation talks to; unset means the configured one. */
+  workspace?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  /** Every message of every branch, in the order they were created. */
+  messages: ChatMessage[];
+  /** Last message of the branch on screen; unset means the newest message. */
+  activeLeafId?: string;
+  /**
+   * Set when `sessionId` is new and hasn't seen the branch yet. Its history is
+   * replayed with the next message; kept here so a reload doesn't lose it.
+   */
+  replayPending?: boolean;
+}
@@ -0,0 +1,82 @@
+import { ApiResponse, Source, Workspace } from './types';
+import { ChatApiError } from './errors';
+
+const RESPONSE_TYPES: ApiResponse['type'][] = ['abort', 'textResponse', 'textResponseChunk', 'finalizeResponseStream'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const invalid = (reason: string, value: unknown) =>
+  new ChatApiError('invalid-response', 'Unexpected response from server', {
+    details: { reason, value }
+  });
+
+const parseSources = (value: unknown): Source[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw invalid('sources is not an array', value);
+
+  return value.map(source => {
+    if (!isRecord(source)) throw invalid('source is not an object', source);
+
+    // Some workspace versions send the passage as `text` instead of `chunk`
+    const chunk = source.chunk ?? source.text ?? '';
+    if (typeof chunk !== 'string') throw invalid('source chunk is not a string', source);
+
+    const parsed: Source = {
+      // Left empty when missing; the UI shows a translated placeholder instead
+      title: typeof source.title === 'string' ? source.title : '',
+      chunk
+    };
+    if (typeof source.score === 'number' && Number.isFinite(source.score)) {
+      parsed.score = Math.min(Math.max(source.score, 0), 1);
+    }
+    return parsed;
+  });
+};
+
+/**
+ * Checks a workspace API response (or stream chunk) at runtime and normalises
+ * the loosely typed fields: `uuid` vs `id`, `error: false`/`'null'` and
+ * missing `sources`.
+ */
+export const parseApiResponse = (value: unknown): ApiResponse => {
+  if (!isRecord(value)) throw invalid('response is not an object', value);
+
+  const type = value.type ?? 'textResponse';
+  if (!RESPONSE_TYPES.includes(type as ApiResponse['type'])) {
+    throw invalid('unknown response type', value);
+  }
+
+  const textResponse = value.textResponse ?? '';
+  if (typeof textResponse !== 'string') throw invalid('textResponse is not a string', value);
+
+  const id = value.id ?? value.uuid ?? '';
+  if (typeof id !== 'string') throw invalid('id is not a string', value);
+
+  const error = typeof value.error === 'string' && value.error !== 'null' ? value.error : null;
+
+  return {
+    id,
+    type: type as ApiResponse['type'],
+    textResponse,
+    sources: parseSources(value.sources),
+    close: value.close === true,
+    error
+  };
+};
+
+/**
+ * Reads the server's workspace listing (`{ workspaces: [{ slug, name, ... }] }`)
+ * down to what the picker needs.
+ */
+export const parseWorkspaceList = (value: unknown): Workspace[] => {
+  if (!isRecord(value) || !Array.isArray(value.workspaces)) {
+    throw invalid('workspaces is not an array', value);
+  }
+
+  return value.workspaces.flatMap(workspace => {
+    if (!isRecord(workspace) || typeof workspace.slug !== 'string' || !workspace.slug) return [];
+    const name = typeof workspace.name === 'string' && workspace.name.trim() ? workspace.name.trim() : workspace.slug;
+    return [{ slug: workspace.slug, name }];
+  });
+};
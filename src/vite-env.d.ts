@@ -1 +1,24 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_CHAT_PROVIDER?: string;
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_WORKSPACE_SLUG?: string;
+  readonly VITE_WORKSPACES?: string;
+  readonly VITE_CHAT_MODEL?: string;
+  readonly VITE_REQUEST_TIMEOUT_MS?: string;
+  readonly VITE_MAX_REQUEST_BYTES?: string;
+  readonly VITE_DEFAULT_MODE?: string;
+  readonly VITE_SPEECH_TO_TEXT?: string;
+  readonly VITE_WHISPER_URL?: string;
+  readonly VITE_WHISPER_MODEL?: string;
+  readonly VITE_TEXT_TO_SPEECH?: string;
+  readonly VITE_TTS_URL?: string;
+  readonly VITE_WAKE_PHRASE?: string;
+  readonly VITE_FEEDBACK_SINK?: string;
+  readonly VITE_FEEDBACK_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,48 @@
+import { VoiceSettings } from './speech';
+
+const VOICE_SETTINGS_KEY = 'okul-asistani:voice-settings';
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  voiceId: null,
+  rate: 0.9,
+  pitch: 1,
+  volume: 1
+};
+
+export const VOICE_SETTING_LIMITS = {
+  rate: { min: 0.5, max: 2 },
+  pitch: { min: 0, max: 2 },
+  volume: { min: 0, max: 1 }
+};
+
+const clampSetting = (key: keyof typeof VOICE_SETTING_LIMITS, value: unknown) => {
+  const number = Number(value);
+  if (!Number.isFinite(number)) return DEFAULT_VOICE_SETTINGS[key];
+  const { min, max } = VOICE_SETTING_LIMITS[key];
+  return Math.min(max, Math.max(min, number));
+};
+
+export const loadVoiceSettings = (): VoiceSettings => {
+  try {
+    const raw = localStorage.getItem(VOICE_SETTINGS_KEY);
+    if (!raw) return DEFAULT_VOICE_SETTINGS;
+
+    const stored = JSON.parse(raw) as Partial<Record<keyof VoiceSettings, unknown>>;
+    return {
+      voiceId: typeof stored.voiceId === 'string' ? stored.voiceId : null,
+      rate: clampSetting('rate', stored.rate ?? DEFAULT_VOICE_SETTINGS.rate),
+      pitch: clampSetting('pitch', stored.pitch ?? DEFAULT_VOICE_SETTINGS.pitch),
+      volume: clampSetting('volume', stored.volume ?? DEFAULT_VOICE_SETTINGS.volume)
+    };
+  } catch {
+    return DEFAULT_VOICE_SETTINGS;
+  }
+};
+
+export const saveVoiceSettings = (settings: VoiceSettings) => {
+  try {
+    localStorage.setItem(VOICE_SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage can be blocked; the settings then last for this tab only
+  }
+};
@@ -0,0 +1,36 @@
+export interface CompressImageRequest {
+  id: number;
+  file: Blob;
+  maxDimension: number;
+  quality: number;
+}
+
+export type CompressImageResponse =
+  | { id: number; blob: Blob }
+  | { id: number; error: string };
+
+self.addEventListener('message', async (event: MessageEvent<CompressImageRequest>) => {
+  const { id, file, maxDimension, quality } = event.data;
+
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('2D context is not available');
+
+    // JPEG has no alpha; paint transparent PNG areas white instead of black
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, width, height);
+    context.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality });
+    self.postMessage({ id, blob } satisfies CompressImageResponse);
+  } catch (error) {
+    self.postMessage({ id, error: String(error) } satisfies CompressImageResponse);
+  }
+});
@@ -1,10 +1,26 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Chat requests go through the server-side proxy (npm run proxy) so the
+// workspace API key never reaches the browser. `xfwd` passes the browser's
+// address along as X-Forwarded-For; without it every request would reach
+// the proxy from localhost and share one rate limit.
+const proxyTarget = process.env.API_PROXY_TARGET ?? 'http://localhost:8787';
+const apiProxy = {
+  '/api': { target: proxyTarget, xfwd: true },
+  '/v1': { target: proxyTarget, xfwd: true },
+};
+
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  server: {
+    proxy: apiProxy,
+  },
+  preview: {
+    proxy: apiProxy,
+  },
 });